@@ -0,0 +1,73 @@
+import type { Permission, Store, StoreValue } from './store'
+
+export interface Actor {
+	id?: string
+	roles?: string[]
+	attributes?: Record<string, unknown>
+}
+
+export interface RoleRule {
+	roles: Record<string, Permission>
+	default?: Permission
+}
+
+export type PermissionPredicate = (
+	actor: Actor | undefined,
+	key: string,
+	value: StoreValue
+) => Permission
+
+export type PermissionRule = Permission | RoleRule | PermissionPredicate
+
+let activeActor: Actor | undefined
+
+export const currentActor = () => activeActor
+
+export function runAs<TResult>(actor: Actor | undefined, operation: () => TResult): TResult {
+	const outerActor = activeActor
+	activeActor = actor
+	try {
+		return operation()
+	} finally {
+		activeActor = outerActor
+	}
+}
+
+// An actor holding several roles gets the union of what each role allows. Masked reads and
+// traverse are dropped next to write or append, which no permission combines them with.
+export function combinePermissions(permissions: Permission[]): Permission {
+	const has = (...granting: Permission[]) => permissions.some((item) => granting.includes(item))
+	const read = has('r', 'rw', 'ra')
+	const write = has('w', 'rw')
+	const append = has('a', 'ra')
+	if (read) return write ? 'rw' : append ? 'ra' : 'r'
+	if (write) return 'w'
+	if (append) return 'a'
+	if (has('m')) return 'm'
+	return has('t') ? 't' : 'none'
+}
+
+export function evaluateRule(
+	rule: PermissionRule,
+	actor: Actor | undefined,
+	key: string,
+	value: StoreValue
+): Permission {
+	if (typeof rule === 'string') return rule
+	if (typeof rule === 'function') return rule(actor, key, value)
+
+	const granted = (actor?.roles ?? []).flatMap((role) => rule.roles[role] ?? [])
+	if (granted.length === 0) return rule.default ?? 'none'
+	return combinePermissions(granted)
+}
+
+// Every method called through the view runs as the actor, including calls into nested stores
+export function actorView<TStore extends Store>(store: TStore, actor: Actor): TStore {
+	return new Proxy(store, {
+		get(target, property) {
+			const value = Reflect.get(target, property, target)
+			if (typeof value !== 'function') return value
+			return (...args: unknown[]) => runAs(actor, () => value.apply(target, args))
+		},
+	})
+}
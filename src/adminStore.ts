@@ -1,3 +1,4 @@
+import { defineEncryption } from './encryption'
 import { lazy } from './lazy'
 import { Restrict, Store } from './store'
 import type { UserStore } from './userStore'
@@ -10,6 +11,7 @@ export class AdminStore extends Store {
 	@Restrict('rw')
 	getCredentials = lazy(() => {
 		const credentialStore = new Store()
+		defineEncryption(credentialStore, '*')
 		credentialStore.writeEntries({ username: 'user1' })
 		return credentialStore
 	})
@@ -0,0 +1,175 @@
+import { appendFileSync, existsSync, readFileSync } from 'node:fs'
+import { type Actor, currentActor } from './actor'
+import { PermissionDeniedError } from './errors'
+import { currentDelegations } from './middleware'
+import type { Store } from './store'
+import { isAtOrBelow, withAncestors } from './subscriptions'
+
+export type AuditOperation = 'read' | 'write' | 'writeEntries' | 'delete' | 'clear'
+
+export type AuditOutcome = 'allowed' | 'denied' | 'failed'
+
+export interface AuditRecord {
+	timestamp: number
+	path: string
+	operation: AuditOperation
+	outcome: AuditOutcome
+	storeName: string
+	actor?: Actor
+	reason?: string
+}
+
+// Both ends of the time range are inclusive, in milliseconds since the epoch
+export interface AuditQuery {
+	pathPrefix?: string
+	from?: number
+	to?: number
+}
+
+export interface AuditSink {
+	record(entry: AuditRecord): void
+	query?(query?: AuditQuery): AuditRecord[]
+}
+
+export interface AuditAttachment {
+	detach(): void
+}
+
+const sinksMap: WeakMap<Store, Set<AuditSink>> = new WeakMap()
+
+// The store whose operation is running, so calls it delegates to nested stores are not recorded twice
+let activeStore: Store | undefined
+
+export function matchesQuery(entry: AuditRecord, query: AuditQuery = {}): boolean {
+	if (query.pathPrefix !== undefined && !isAtOrBelow(entry.path, query.pathPrefix)) return false
+	if (query.from !== undefined && entry.timestamp < query.from) return false
+	if (query.to !== undefined && entry.timestamp > query.to) return false
+	return true
+}
+
+export function attachAudit(store: Store, sink: AuditSink): AuditAttachment {
+	const sinks = sinksMap.get(store) ?? new Set()
+	sinks.add(sink)
+	sinksMap.set(store, sinks)
+	return { detach: () => sinks.delete(sink) }
+}
+
+// Copies of a store, like the versions kept by history, record into the same sinks
+export function copyAuditSinks(source: Store, target: Store): void {
+	const sinks = sinksMap.get(source)
+	if (sinks) sinksMap.set(target, sinks)
+}
+
+// Records reach the sinks of the store and of every store holding it, with the path from each.
+// Those the delegating parent records into already are skipped.
+function recordAccess(
+	store: Store,
+	entry: Omit<AuditRecord, 'timestamp' | 'storeName'>,
+	parent?: Store
+): void {
+	const base = { timestamp: Date.now(), storeName: store.constructor.name, ...entry }
+	const recorded = new Set(parent ? [...withAncestors(parent)].map(([holder]) => holder) : [])
+	for (const [holder, prefix] of withAncestors(store)) {
+		const sinks = sinksMap.get(holder)
+		if (!sinks || recorded.has(holder)) continue
+		const path = prefix && entry.path ? `${prefix}:${entry.path}` : prefix || entry.path
+		for (const sink of [...sinks]) sink.record({ ...base, path })
+	}
+}
+
+function failure(error: unknown): Pick<AuditRecord, 'outcome' | 'reason'> {
+	return {
+		outcome: error instanceof PermissionDeniedError ? 'denied' : 'failed',
+		reason: error instanceof Error ? error.message : String(error),
+	}
+}
+
+// Asynchronous accesses are recorded once their promise settles
+export function audited<TResult>(
+	store: Store,
+	operation: AuditOperation,
+	path: string,
+	access: () => TResult
+): TResult {
+	// Only calls the running operation hands down to a nested store count as delegated, not
+	// those made on other stores by middleware, lazy values or computed keys along the way
+	const delegating = currentDelegations().at(-1)?.store
+	const parent = activeStore !== undefined && delegating === activeStore ? activeStore : undefined
+
+	const actor = currentActor()
+	const entry = { path, operation, ...(actor && { actor }) }
+	const outerStore = activeStore
+	activeStore = store
+	try {
+		const result = access()
+		if (result instanceof Promise) {
+			return result.then(
+				(value) => {
+					recordAccess(store, { ...entry, outcome: 'allowed' }, parent)
+					return value
+				},
+				(error) => {
+					recordAccess(store, { ...entry, ...failure(error) }, parent)
+					throw error
+				}
+			) as TResult
+		}
+		recordAccess(store, { ...entry, outcome: 'allowed' }, parent)
+		return result
+	} catch (error) {
+		recordAccess(store, { ...entry, ...failure(error) }, parent)
+		throw error
+	} finally {
+		activeStore = outerStore
+	}
+}
+
+// Keeps the latest records, overwriting the oldest once the capacity is reached
+export class MemoryAuditSink implements AuditSink {
+	private buffer: AuditRecord[] = []
+	private next = 0
+
+	constructor(readonly capacity = 1000) {}
+
+	record(entry: AuditRecord): void {
+		if (this.buffer.length < this.capacity) {
+			this.buffer.push(entry)
+		} else {
+			this.buffer[this.next] = entry
+		}
+		this.next = (this.next + 1) % this.capacity
+	}
+
+	query(query?: AuditQuery): AuditRecord[] {
+		const ordered =
+			this.buffer.length < this.capacity
+				? this.buffer
+				: [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)]
+		return ordered.filter((entry) => matchesQuery(entry, query))
+	}
+}
+
+export class FileAuditSink implements AuditSink {
+	constructor(readonly filePath: string) {}
+
+	record(entry: AuditRecord): void {
+		appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`)
+	}
+
+	query(query?: AuditQuery): AuditRecord[] {
+		if (!existsSync(this.filePath)) return []
+		return readFileSync(this.filePath, 'utf8')
+			.split('\n')
+			.filter((line) => line.trim())
+			.map((line): AuditRecord => JSON.parse(line))
+			.filter((entry) => matchesQuery(entry, query))
+	}
+}
+
+export class CallbackAuditSink implements AuditSink {
+	constructor(readonly callback: (entry: AuditRecord) => void) {}
+
+	record(entry: AuditRecord): void {
+		this.callback(entry)
+	}
+}
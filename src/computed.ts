@@ -0,0 +1,83 @@
+import { isSealed, open } from './encryption'
+import { parsePath } from './path'
+import { classChain } from './permissions'
+import { rawValue } from './snapshot'
+import { Store, type StoreResult } from './store'
+
+export type ComputeFunction = (...values: StoreResult[]) => StoreResult
+
+interface ComputedKey {
+	dependencies: string[][]
+	compute: ComputeFunction
+}
+
+interface CachedResult {
+	inputs: StoreResult[]
+	value: StoreResult
+}
+
+const computedMap: WeakMap<object, Map<string, ComputedKey>> = new WeakMap()
+const cacheMap: WeakMap<Store, Map<string, CachedResult>> = new WeakMap()
+
+// The decorated method receives the values of its dependencies, read without permission checks
+export function Computed(...dependencies: string[]): MethodDecorator {
+	return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+		const storeName = target.constructor.name
+		const keys = computedMap.get(target.constructor) ?? new Map()
+		keys.set(propertyKey.toString(), {
+			dependencies: dependencies.map(
+				(path) => parsePath(path, { operation: 'read', storeName }) as string[]
+			),
+			compute: descriptor.value,
+		})
+		computedMap.set(target.constructor, keys)
+	}
+}
+
+function computedKeyOf(store: Store, key: string): ComputedKey | undefined {
+	for (const storeClass of classChain(store)) {
+		const computed = computedMap.get(storeClass)?.get(key)
+		if (computed) return computed
+	}
+	return undefined
+}
+
+export const isComputedKey = (store: Store, key: string) => computedKeyOf(store, key) !== undefined
+
+export function computedKeys(store: Store): string[] {
+	return classChain(store).flatMap((storeClass) => [...(computedMap.get(storeClass)?.keys() ?? [])])
+}
+
+function dependencyValue(store: Store, keys: string[]): StoreResult {
+	let value: StoreResult = store
+	for (const key of keys) {
+		if (value instanceof Store) {
+			const raw = rawValue(value, key)
+			if (isSealed(raw)) value = open(raw)
+			else value = typeof raw === 'function' ? (raw() as StoreResult) : raw
+		} else if (typeof value === 'object' && value !== null) {
+			value = Array.isArray(value) ? value[Number(key)] : value[key]
+		} else {
+			return undefined
+		}
+	}
+	return value
+}
+
+// The result is kept until one of the dependencies holds a different value
+export function computeValue(store: Store, key: string): StoreResult {
+	const computed = computedKeyOf(store, key)
+	if (!computed) return undefined
+
+	const inputs = computed.dependencies.map((keys) => dependencyValue(store, keys))
+	const cache = cacheMap.get(store) ?? new Map<string, CachedResult>()
+	cacheMap.set(store, cache)
+	const cached = cache.get(key)
+	if (cached?.inputs.every((input, index) => Object.is(input, inputs[index]))) {
+		return cached.value
+	}
+
+	const value = computed.compute.apply(store, inputs)
+	cache.set(key, { inputs, value })
+	return value
+}
@@ -0,0 +1,171 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto'
+import type { JSONValue } from './json-types'
+import { currentDelegations, type Delegation } from './middleware'
+import { escapeKey, type PathSegment, parsePath } from './path'
+import { classChain, type StoreClass } from './permissions'
+import { matches } from './rules'
+import { Store, type StoreValue } from './store'
+
+// Keys are 32 bytes long, values are sealed with AES-256-GCM under the current key
+export interface KeyProvider {
+	currentKeyId(): string
+	keyFor(keyId: string): Buffer | undefined
+}
+
+const SEALED_PREFIX = 'enc:v1:'
+
+// Sealed values have a class of their own, so that no value written to a store passes for one.
+// Exports hold them as strings, which are only taken for sealed values again on encrypted keys.
+export class SealedValue {
+	readonly #keyId: string
+	readonly #parts: string[]
+
+	constructor(keyId: string, parts: string[]) {
+		this.#keyId = keyId
+		this.#parts = parts
+	}
+
+	get keyId(): string {
+		return this.#keyId
+	}
+
+	get parts(): string[] {
+		return [...this.#parts]
+	}
+
+	toJSON(): string {
+		return `${SEALED_PREFIX}${this.#keyId}:${this.#parts.join(':')}`
+	}
+
+	static fromJSON(text: string): SealedValue | undefined {
+		if (!text.startsWith(SEALED_PREFIX)) return undefined
+		const segments = text.slice(SEALED_PREFIX.length).split(':')
+		const parts = segments.splice(-3)
+		return segments.length > 0 ? new SealedValue(segments.join(':'), parts) : undefined
+	}
+}
+
+// Older keys are kept after a rotation so that values sealed under them can still be opened
+export class KeyRing implements KeyProvider {
+	readonly #keys = new Map<string, Buffer>()
+	#currentKeyId: string
+
+	constructor(keyId: string, key: Buffer) {
+		this.#keys.set(keyId, key)
+		this.#currentKeyId = keyId
+	}
+
+	currentKeyId(): string {
+		return this.#currentKeyId
+	}
+
+	keyFor(keyId: string): Buffer | undefined {
+		return this.#keys.get(keyId)
+	}
+
+	rotate(keyId: string, key: Buffer): void {
+		this.#keys.set(keyId, key)
+		this.#currentKeyId = keyId
+	}
+
+	// The current key can't be retired, the values sealed under it would be lost
+	retire(keyId: string): boolean {
+		return keyId !== this.#currentKeyId && this.#keys.delete(keyId)
+	}
+}
+
+// The default key only lives as long as the process, persisted values need a provider of their own
+let keyProvider: KeyProvider = new KeyRing('default', randomBytes(32))
+
+// Encrypted keys are kept per constructor for decorated classes and per instance for single stores
+const encryptedMap: WeakMap<object, PathSegment[][]> = new WeakMap()
+
+export const currentKeyProvider = (): KeyProvider => keyProvider
+
+export function useKeyProvider(provider: KeyProvider): void {
+	keyProvider = provider
+}
+
+export function defineEncryption(target: StoreClass | Store, pattern: string): void {
+	const storeName = typeof target === 'function' ? target.name : target.constructor.name
+	const patterns = encryptedMap.get(target) ?? []
+	patterns.push(parsePath(pattern, { operation: 'write', storeName }))
+	encryptedMap.set(target, patterns)
+}
+
+export function Encrypted(): PropertyDecorator {
+	return (target: object, propertyKey: string | symbol) => {
+		defineEncryption(target.constructor as StoreClass, escapeKey(propertyKey.toString()))
+	}
+}
+
+const patternsOf = (store: Store): PathSegment[][] => [
+	...classChain(store).flatMap((storeClass) => encryptedMap.get(storeClass) ?? []),
+	...(encryptedMap.get(store) ?? []),
+]
+
+const encryptedIn = (store: Store, keys: string[]) =>
+	patternsOf(store).some((pattern) => matches(pattern, keys))
+
+// Patterns of parents delegating a write apply to the full path leading from them to the key
+export function encryptsKey(
+	store: Store,
+	key: string,
+	delegations: Delegation[] = currentDelegations()
+): boolean {
+	if (encryptedIn(store, [key])) return true
+	return delegations.some(({ store: parent }, index) => {
+		const prefixes = delegations
+			.slice(index)
+			.flatMap(({ prefix }) =>
+				parsePath(prefix, { operation: 'write', storeName: parent.constructor.name })
+			)
+		return encryptedIn(parent, [...(prefixes as string[]), key])
+	})
+}
+
+export const isSealed = (value: unknown): value is SealedValue => value instanceof SealedValue
+
+const sealable = (value: StoreValue): value is JSONValue =>
+	value !== undefined &&
+	typeof value !== 'function' &&
+	!(value instanceof Store) &&
+	!(value instanceof SealedValue)
+
+// Stores, lazy values and values sealed already are kept as they are
+export function seal(value: StoreValue): StoreValue {
+	if (!sealable(value)) return value
+	const keyId = keyProvider.currentKeyId()
+	const key = keyProvider.keyFor(keyId)
+	if (!key) throw new Error(`Key "${keyId}" is not supplied by the key provider`)
+
+	const iv = randomBytes(12)
+	const cipher = createCipheriv('aes-256-gcm', key, iv)
+	const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()])
+	const parts = [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64'))
+	return new SealedValue(keyId, parts)
+}
+
+// Returns undefined when the key is gone or the value has been tampered with
+export function open(sealed: SealedValue): JSONValue | undefined {
+	const [iv, tag, data] = sealed.parts.map((part) => Buffer.from(part, 'base64'))
+	const key = keyProvider.keyFor(sealed.keyId)
+	if (!key || !iv || !tag || !data) return undefined
+
+	try {
+		const decipher = createDecipheriv('aes-256-gcm', key, iv)
+		decipher.setAuthTag(tag)
+		const json = Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8')
+		return JSON.parse(json)
+	} catch {
+		return undefined
+	}
+}
+
+// Encrypted class fields are sealed in place the first time they are looked up
+export function sealField(store: Store, key: string, value: StoreValue): StoreValue {
+	if (!sealable(value) || !encryptedIn(store, [key])) return value
+	const sealed = seal(value)
+	Reflect.set(store, key, sealed)
+	return sealed
+}
@@ -0,0 +1,155 @@
+import type { LimitName } from './limits'
+import type { Permission } from './store'
+
+export type StoreOperation = 'read' | 'write'
+
+export interface StoreErrorDetails {
+	path: string
+	segment: string
+	operation: StoreOperation
+	permission?: Permission
+	storeName: string
+}
+
+const formatMessage = (details: StoreErrorDetails, reason: string) =>
+	`Cannot ${details.operation} "${details.path}" on ${details.storeName}: ${reason}`
+
+export class StoreError extends Error {
+	readonly path: string
+	readonly segment: string
+	readonly operation: StoreOperation
+	readonly permission?: Permission
+	readonly storeName: string
+	readonly reason: string
+
+	constructor(details: StoreErrorDetails, reason: string) {
+		super(formatMessage(details, reason))
+		this.name = new.target.name
+		this.reason = reason
+		this.path = details.path
+		this.segment = details.segment
+		this.operation = details.operation
+		this.permission = details.permission
+		this.storeName = details.storeName
+	}
+
+	get details(): StoreErrorDetails {
+		return {
+			path: this.path,
+			segment: this.segment,
+			operation: this.operation,
+			permission: this.permission,
+			storeName: this.storeName,
+		}
+	}
+
+	// Copies the error as seen from a parent store, so the path stays the full path
+	withParent(parentPath: string): this {
+		const path = this.path ? `${parentPath}:${this.path}` : parentPath
+		const error: this = Object.create(Object.getPrototypeOf(this))
+		Object.assign(error, this, { path, stack: this.stack })
+		error.message = formatMessage({ ...this.details, path }, this.reason)
+		return error
+	}
+}
+
+export class PermissionDeniedError extends StoreError {
+	constructor(details: StoreErrorDetails) {
+		super(
+			details,
+			`${details.operation} access to "${details.segment}" is denied (${details.permission})`
+		)
+	}
+}
+
+export class InvalidPathError extends StoreError {
+	constructor(details: StoreErrorDetails, reason = `"${details.segment}" is not a valid key`) {
+		super(details, reason)
+	}
+}
+
+export class PathSyntaxError extends InvalidPathError {
+	readonly position: number
+
+	constructor(details: StoreErrorDetails & { position: number }, problem: string) {
+		super(details, `${problem} at position ${details.position}`)
+		this.position = details.position
+	}
+}
+
+export class NotTraversableError extends StoreError {
+	constructor(details: StoreErrorDetails) {
+		super(details, `"${details.segment}" does not hold a store`)
+	}
+}
+
+export class AsyncValueError extends StoreError {
+	constructor(details: StoreErrorDetails) {
+		super(details, `"${details.segment}" is loaded asynchronously, use readAsync`)
+	}
+}
+
+// Raised when a sealed value was sealed under a key the key provider no longer supplies, or was
+// tampered with
+export class DecryptionError extends StoreError {
+	constructor(details: StoreErrorDetails) {
+		super(details, `"${details.segment}" could not be decrypted`)
+	}
+}
+
+export interface ExceededLimit {
+	limit: LimitName
+	max: number
+	actual: number
+}
+
+export class LimitExceededError extends StoreError {
+	readonly limit: LimitName
+	readonly max: number
+	readonly actual: number
+
+	constructor(details: StoreErrorDetails, { limit, max, actual }: ExceededLimit) {
+		super(details, `${limit} of ${max} is exceeded (${actual})`)
+		this.limit = limit
+		this.max = max
+		this.actual = actual
+	}
+}
+
+export class PatchTestError extends StoreError {
+	constructor(details: StoreErrorDetails) {
+		super(details, `"${details.path}" does not hold the tested value`)
+	}
+}
+
+// Raised by middleware turning an operation down, with the reason it gave
+export class OperationVetoedError extends StoreError {}
+
+export interface ValidationIssue {
+	path: string
+	message: string
+}
+
+const describeIssues = (issues: ValidationIssue[]) =>
+	issues.map((issue) => `"${issue.path}" ${issue.message}`).join(', ')
+
+export class ValidationError extends StoreError {
+	readonly issues: ValidationIssue[]
+
+	constructor(details: StoreErrorDetails, issues: ValidationIssue[]) {
+		super(details, `invalid value (${describeIssues(issues)})`)
+		this.issues = issues
+	}
+
+	override withParent(parentPath: string): this {
+		const error = super.withParent(parentPath)
+		const issues = this.issues.map((issue) => ({
+			...issue,
+			path: `${parentPath}:${issue.path}`,
+		}))
+		const reason = `invalid value (${describeIssues(issues)})`
+		Object.assign(error, { issues, reason })
+		error.message = formatMessage(error.details, reason)
+		return error
+	}
+}
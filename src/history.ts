@@ -0,0 +1,220 @@
+import { copyAuditSinks } from './audit'
+import type { JSONArray, JSONObject, JSONValue } from './json-types'
+import { copyMiddleware, withoutMiddleware } from './middleware'
+import { formatPath, parsePath } from './path'
+import { withoutPermissionChecks } from './permissions'
+import { copyPathRules } from './rules'
+import { linkFieldStores, rawValue } from './snapshot'
+import { Store, type StoreValue } from './store'
+import { addListener, type StoreChange } from './subscriptions'
+import { currentCommit, inTransaction, runTransaction } from './transactions'
+
+export interface HistoryOptions {
+	limit?: number
+}
+
+// Keys are relative to the store the change was made on, so undoing it goes through that store
+interface RecordedChange {
+	store: Store
+	keys: string[]
+	oldValue: StoreValue
+	newValue: StoreValue
+}
+
+interface Version {
+	commit: number | undefined
+	changes: RecordedChange[]
+}
+
+const historyMap: WeakMap<Store, StoreHistory> = new WeakMap()
+
+const toKeys = (store: Store, path: string) =>
+	parsePath(path, { operation: 'write', storeName: store.constructor.name }) as string[]
+
+// Finds where the origin store sits below the root and returns the keys left from there
+function keysFrom(root: Store, keys: string[], origin: Store): string[] | undefined {
+	let current: StoreValue = root
+	for (const [index, key] of keys.entries()) {
+		if (current === origin) return keys.slice(index)
+		if (!(current instanceof Store)) return undefined
+		current = rawValue(current, key)
+	}
+	return current === origin ? [] : undefined
+}
+
+function cloneValue(value: StoreValue, clones: Map<Store, Store>): StoreValue {
+	if (!(value instanceof Store)) return value
+	const existing = clones.get(value)
+	if (existing) return existing
+
+	const clone: Store = Object.create(Object.getPrototypeOf(value))
+	clones.set(value, clone)
+	const fields = Object.entries(value).map(([key, field]) => [key, cloneValue(field, clones)])
+	Object.assign(clone, Object.fromEntries(fields))
+	clone.data = new Map([...value.data].map(([key, item]) => [key, cloneValue(item, clones)]))
+	copyPathRules(value, clone)
+	copyMiddleware(value, clone)
+	copyAuditSinks(value, clone)
+	return clone
+}
+
+function withValue(container: StoreValue, keys: string[], value: StoreValue): StoreValue {
+	const [key, ...rest] = keys
+	if (key === undefined) return value
+	if (Array.isArray(container)) {
+		const copy: JSONArray = [...container]
+		copy[Number(key)] = withValue(copy[Number(key)], rest, value) as JSONValue
+		return copy
+	}
+	const copy: JSONObject = { ...(container as JSONObject) }
+	copy[key] = withValue(copy[key], rest, value) as JSONValue
+	return copy
+}
+
+// Sets a value without permission checks, notifications or history, for detached copies only
+function setRaw(store: Store, keys: string[], value: StoreValue): void {
+	const [key, ...rest] = keys
+	if (key === undefined) return
+	const current = rawValue(store, key)
+	if (rest.length > 0 && current instanceof Store) setRaw(current, rest, value)
+	else store.data.set(key, withValue(current, rest, value))
+}
+
+function rawAt(store: Store, keys: string[]): StoreValue {
+	let value: StoreValue = store
+	for (const key of keys) {
+		if (value instanceof Store) value = rawValue(value, key)
+		else if (Array.isArray(value)) value = value[Number(key)]
+		else if (typeof value === 'object' && value !== null) value = (value as JSONObject)[key]
+		else return undefined
+	}
+	return value
+}
+
+class StoreHistory {
+	private versions: Version[] = []
+	private undone: Version[] = []
+	private oldestVersion = 0
+	private replaying = false
+
+	constructor(
+		private readonly root: Store,
+		private readonly limit: number
+	) {
+		if (limit <= 0) return
+		linkFieldStores(root)
+		addListener(root, '', (change) => this.record(change))
+	}
+
+	get version(): number {
+		return this.oldestVersion + this.versions.length
+	}
+
+	// Changes committed by the same transaction make up a single version
+	private record(change: StoreChange): void {
+		if (this.replaying) return
+		const keys = keysFrom(this.root, toKeys(this.root, change.path), change.store)
+		if (!keys) return
+		const recorded = {
+			store: change.store,
+			keys,
+			oldValue: change.oldValue,
+			newValue: change.newValue,
+		}
+
+		this.undone = []
+		const latest = this.versions[this.versions.length - 1]
+		if (latest && latest.commit !== undefined && latest.commit === currentCommit()) {
+			latest.changes.push(recorded)
+			return
+		}
+		this.versions.push({ commit: currentCommit(), changes: [recorded] })
+		if (this.versions.length > this.limit) {
+			this.versions.shift()
+			this.oldestVersion++
+		}
+	}
+
+	private replay(changes: RecordedChange[], pick: (change: RecordedChange) => StoreValue): void {
+		if (inTransaction()) throw new Error('History cannot be replayed inside a transaction')
+		this.replaying = true
+		try {
+			// Values are put back without permission checks, subscribers still get theirs once committed
+			withoutMiddleware(() =>
+				runTransaction(() =>
+					withoutPermissionChecks(() => {
+						for (const change of changes) {
+							const value = pick(change)
+							const path = formatPath(change.keys)
+							if (value === undefined) change.store.delete(path)
+							else change.store.write(path, value)
+						}
+					})
+				)
+			)
+		} finally {
+			this.replaying = false
+		}
+	}
+
+	undo(): boolean {
+		const version = this.versions[this.versions.length - 1]
+		if (!version) return false
+		this.replay([...version.changes].reverse(), (change) => change.oldValue)
+		this.undone.push(this.versions.pop() as Version)
+		return true
+	}
+
+	redo(): boolean {
+		const version = this.undone[this.undone.length - 1]
+		if (!version) return false
+		this.replay(version.changes, (change) => change.newValue)
+		this.versions.push(this.undone.pop() as Version)
+		return true
+	}
+
+	// Copies the current tree and rolls the copy back, leaving the live stores untouched
+	at(version: number): Store {
+		if (!Number.isInteger(version) || version < this.oldestVersion || version > this.version) {
+			throw new RangeError(
+				`Version ${version} is not kept, versions ${this.oldestVersion} to ${this.version} are`
+			)
+		}
+
+		const clones = new Map<Store, Store>()
+		const copy = cloneValue(this.root, clones) as Store
+		for (const { changes } of this.versions.slice(version - this.oldestVersion).reverse()) {
+			for (const change of [...changes].reverse()) {
+				const store = clones.get(change.store)
+				if (store) setRaw(store, change.keys, cloneValue(change.oldValue, clones))
+			}
+		}
+		return copy
+	}
+
+	revert(path: string, version: number): void {
+		const value = rawAt(this.at(version), toKeys(this.root, path))
+		withoutMiddleware(() => this.root.write(path, value))
+	}
+}
+
+// Stores without history only keep their current state, as version 0
+const historyOf = (store: Store) => historyMap.get(store) ?? new StoreHistory(store, 0)
+
+export function enableHistory(store: Store, options: HistoryOptions = {}): void {
+	if (historyMap.has(store)) return
+	historyMap.set(store, new StoreHistory(store, options.limit ?? 100))
+}
+
+export const currentVersion = (store: Store) => historyOf(store).version
+
+export const undo = (store: Store) => historyOf(store).undo()
+
+export const redo = (store: Store) => historyOf(store).redo()
+
+export const storeAt = <TStore extends Store>(store: TStore, version: number) =>
+	historyOf(store).at(version) as TStore
+
+export function revert(store: Store, path: string, version: number): void {
+	historyOf(store).revert(path, version)
+}
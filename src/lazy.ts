@@ -1,12 +1,68 @@
-export const lazy = <TResult>(fn: () => TResult): (() => TResult) => {
+export interface LazyOptions {
+	retries?: number
+	ttl?: number
+}
+
+export interface CacheStats {
+	hits: number
+	misses: number
+}
+
+export type Lazy<TResult> = (() => TResult) & {
+	invalidate(): void
+	stats(): CacheStats
+}
+
+export const isLazy = (value: unknown): value is Lazy<unknown> =>
+	typeof value === 'function' && 'invalidate' in value && 'stats' in value
+
+async function withRetries<TValue>(
+	first: Promise<TValue>,
+	fn: () => Promise<TValue>,
+	retries: number
+): Promise<TValue> {
+	let attempt = first
+	for (let remaining = retries; ; remaining--) {
+		try {
+			return await attempt
+		} catch (error) {
+			if (remaining <= 0) throw error
+			attempt = fn()
+		}
+	}
+}
+
+// Pending promises are shared by concurrent callers, rejected ones are dropped so the next call retries
+export const lazy = <TResult>(fn: () => TResult, options: LazyOptions = {}): Lazy<TResult> => {
 	let executed = false
 	let value: TResult | undefined
-	return () => {
-		if (executed) {
+	let loadedAt = 0
+	const stats: CacheStats = { hits: 0, misses: 0 }
+
+	const invalidate = () => {
+		executed = false
+		value = undefined
+	}
+	const isFresh = () => options.ttl === undefined || Date.now() - loadedAt < options.ttl
+
+	const read = () => {
+		if (executed && isFresh()) {
+			stats.hits++
 			return value as TResult
 		}
+		stats.misses++
 		value = fn()
 		executed = true
+		loadedAt = Date.now()
+		if (value instanceof Promise) {
+			const pending = withRetries(value, fn as () => Promise<unknown>, options.retries ?? 0)
+			value = pending as TResult
+			pending.catch(() => {
+				if (value === pending) invalidate()
+			})
+		}
 		return value
 	}
+
+	return Object.assign(read, { invalidate, stats: () => ({ ...stats }) })
 }
@@ -0,0 +1,157 @@
+import { LimitExceededError, type StoreErrorDetails } from './errors'
+import { formatPath, isIndex, parsePath } from './path'
+import { classChain, type StoreClass } from './permissions'
+import { rawValue, storeKeys } from './snapshot'
+import { rawValueAt, Store, type StoreValue } from './store'
+import { withAncestors } from './subscriptions'
+
+// Key counts apply to every store and object of the subtree, array items count as keys of the total
+export interface StoreLimits {
+	maxDepth?: number
+	maxKeys?: number
+	maxTotalKeys?: number
+	maxStringLength?: number
+	maxArrayLength?: number
+}
+
+export type LimitName = keyof StoreLimits
+
+export interface LimitUsage {
+	used: number
+	max?: number
+}
+
+export type StoreUsage = Record<LimitName, LimitUsage>
+
+// A value about to be written, at the given keys below the store
+export interface PendingWrite {
+	keys: string[]
+	value: StoreValue
+}
+
+type Measures = Record<LimitName, number>
+
+// Limits are kept per constructor for store classes and per instance for single stores
+const limitsMap: WeakMap<object, StoreLimits> = new WeakMap()
+
+export function defineLimits(target: StoreClass | Store, limits: StoreLimits): void {
+	limitsMap.set(target, { ...limitsMap.get(target), ...limits })
+}
+
+// Limits of the instance win over those of its classes, subclasses over their parents
+export const limitsOf = (store: Store): StoreLimits =>
+	Object.assign(
+		{},
+		...classChain(store)
+			.reverse()
+			.map((storeClass) => limitsMap.get(storeClass)),
+		limitsMap.get(store)
+	)
+
+function childrenOf(value: StoreValue, seen: Set<Store>): Array<[string, StoreValue]> {
+	if (value instanceof Store) {
+		if (seen.has(value)) return []
+		seen.add(value)
+		return storeKeys(value)
+			.map((key): [string, StoreValue] => [key, rawValue(value, key)])
+			.filter(([, child]) => child !== undefined)
+	}
+	if (Array.isArray(value)) return value.map((item, index) => [`${index}`, item])
+	if (typeof value === 'object' && value !== null) return Object.entries(value)
+	return []
+}
+
+// Stores met a second time and lazy values count as empty
+function measure(value: StoreValue, seen: Set<Store> = new Set()): Measures {
+	const children = childrenOf(value, seen)
+	const measures: Measures = {
+		maxDepth: 0,
+		maxKeys: Array.isArray(value) ? 0 : children.length,
+		maxTotalKeys: 0,
+		maxStringLength: typeof value === 'string' ? value.length : 0,
+		maxArrayLength: Array.isArray(value) ? value.length : 0,
+	}
+	for (const [, child] of children) {
+		const childMeasures = measure(child, seen)
+		measures.maxDepth = Math.max(measures.maxDepth, childMeasures.maxDepth + 1)
+		measures.maxKeys = Math.max(measures.maxKeys, childMeasures.maxKeys)
+		measures.maxTotalKeys += childMeasures.maxTotalKeys + 1
+		measures.maxStringLength = Math.max(measures.maxStringLength, childMeasures.maxStringLength)
+		measures.maxArrayLength = Math.max(measures.maxArrayLength, childMeasures.maxArrayLength)
+	}
+	return measures
+}
+
+export function usageOf(store: Store): StoreUsage {
+	const limits = limitsOf(store)
+	const measures = measure(store)
+	const usage = {} as StoreUsage
+	for (const [limit, used] of Object.entries(measures) as Array<[LimitName, number]>) {
+		usage[limit] = { used, max: limits[limit] }
+	}
+	return usage
+}
+
+// Checks the writes against the limits of the store, from the keys of each container they add
+// keys to down to the values they write, without changing anything
+function assertWritesFit(
+	store: Store,
+	limits: StoreLimits,
+	writes: PendingWrite[],
+	details: Omit<StoreErrorDetails, 'segment'>
+): void {
+	const check = (limit: LimitName, actual: number, keys: string[]) => {
+		const max = limits[limit]
+		if (max === undefined || actual <= max) return
+		const segment = keys[keys.length - 1] ?? ''
+		throw new LimitExceededError({ ...details, segment }, { limit, max, actual })
+	}
+	const addedKeys = new Map<string, { count: number; added: Set<string> }>()
+	let totalKeys = limits.maxTotalKeys === undefined ? 0 : measure(store).maxTotalKeys
+
+	for (const { keys, value } of writes) {
+		const measures = measure(value)
+		check('maxDepth', keys.length + measures.maxDepth, keys)
+		check('maxKeys', measures.maxKeys, keys)
+		check('maxStringLength', measures.maxStringLength, keys)
+		check('maxArrayLength', measures.maxArrayLength, keys)
+		totalKeys += measures.maxTotalKeys - measure(rawValueAt(store, keys)).maxTotalKeys
+
+		for (const [index, key] of keys.entries()) {
+			const container = rawValueAt(store, keys.slice(0, index))
+			const isNew = rawValueAt(store, keys.slice(0, index + 1)) === undefined
+			if (isNew) totalKeys++
+
+			if (Array.isArray(container)) {
+				if (isIndex(key)) check('maxArrayLength', Math.max(container.length, Number(key) + 1), keys)
+				continue
+			}
+			const containerPath = formatPath(keys.slice(0, index))
+			const entry = addedKeys.get(containerPath) ?? {
+				count: childrenOf(container, new Set()).length,
+				added: new Set<string>(),
+			}
+			if (isNew) entry.added.add(key)
+			addedKeys.set(containerPath, entry)
+			check('maxKeys', entry.count + entry.added.size, keys)
+		}
+	}
+	check('maxTotalKeys', totalKeys, writes[0]?.keys ?? [])
+}
+
+// The limits of every store holding this one apply as well, to the full path leading to the values
+export function assertWithinLimits(store: Store, path: string, writes: PendingWrite[]): void {
+	for (const [holder, prefix] of withAncestors(store)) {
+		const limits = limitsOf(holder)
+		if (Object.keys(limits).length === 0) continue
+
+		const context = { operation: 'write' as const, storeName: holder.constructor.name }
+		const prefixKeys = prefix ? (parsePath(prefix, context) as string[]) : []
+		const fullWrites = writes.map(({ keys, value }) => ({ keys: [...prefixKeys, ...keys], value }))
+		assertWritesFit(holder, limits, fullWrites, {
+			path,
+			operation: 'write',
+			storeName: store.constructor.name,
+		})
+	}
+}
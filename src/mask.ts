@@ -0,0 +1,50 @@
+import type { JSONValue } from './json-types'
+import { escapeKey, formatPath, type PathSegment, parsePath } from './path'
+import { classChain, type StoreClass } from './permissions'
+import { matches } from './rules'
+import type { Store, StoreResult } from './store'
+
+export type MaskFunction = (value: StoreResult, path: string) => JSONValue
+
+export const MASK_PLACEHOLDER = '****'
+
+interface MaskRule {
+	pattern: PathSegment[]
+	mask: MaskFunction
+}
+
+// Masks are kept per constructor for decorated classes and per instance for single stores
+const masksMap: WeakMap<object, MaskRule[]> = new WeakMap()
+
+export function defineMask(target: StoreClass | Store, pattern: string, mask: MaskFunction): void {
+	const storeName = typeof target === 'function' ? target.name : target.constructor.name
+	const rules = masksMap.get(target) ?? []
+	rules.push({ pattern: parsePath(pattern, { operation: 'read', storeName }), mask })
+	masksMap.set(target, rules)
+}
+
+export function Mask(mask: MaskFunction): PropertyDecorator {
+	return (target: object, propertyKey: string | symbol) => {
+		defineMask(target.constructor as StoreClass, escapeKey(propertyKey.toString()), mask)
+	}
+}
+
+// Strings longer than the count keep their last characters, anything else is hidden whole
+export const showLast =
+	(count: number): MaskFunction =>
+	(value) =>
+		typeof value === 'string' && value.length > count
+			? `${MASK_PLACEHOLDER}${value.slice(-count)}`
+			: MASK_PLACEHOLDER
+
+// The latest matching mask wins, masks of the instance over those of its classes
+export function maskValue(store: Store, keys: string[], value: StoreResult): JSONValue {
+	const rules = [
+		...classChain(store)
+			.reverse()
+			.flatMap((storeClass) => masksMap.get(storeClass) ?? []),
+		...(masksMap.get(store) ?? []),
+	]
+	const rule = rules.reverse().find(({ pattern }) => matches(pattern, keys))
+	return rule ? rule.mask(value, formatPath(keys)) : MASK_PLACEHOLDER
+}
@@ -0,0 +1,164 @@
+import { OperationVetoedError } from './errors'
+import type { JSONObject } from './json-types'
+import { parsePath } from './path'
+import { classChain, type StoreClass } from './permissions'
+import type { Store, StoreValue } from './store'
+
+export type MiddlewareOperation = 'read' | 'write' | 'writeEntries'
+
+export type MiddlewareValue = StoreValue | JSONObject
+
+// The path leads from the store the middleware is registered on to the value, the store holds it
+export interface MiddlewareContext {
+	operation: MiddlewareOperation
+	path: string
+	value: MiddlewareValue
+	store: Store
+	veto(reason: string): never
+}
+
+// Calling next without a value passes the current one on, reads are given no value
+export type Middleware = (
+	context: MiddlewareContext,
+	next: (value?: MiddlewareValue) => MiddlewareValue
+) => MiddlewareValue
+
+export interface MiddlewareOptions {
+	nested?: boolean
+}
+
+interface Registration {
+	middleware: Middleware
+	nested: boolean
+}
+
+// A parent store handing an operation down to a nested store, with the path leading to it
+export interface Delegation {
+	store: Store
+	prefix: string
+	// Set once the middleware of this parent and of those above it ran for the operation
+	middlewareRan?: boolean
+}
+
+// Middleware is kept per constructor for subclasses and per instance for single stores
+const middlewareMap: WeakMap<object, Registration[]> = new WeakMap()
+
+// The parents an operation went through before reaching the current store
+let activeDelegations: Delegation[] = []
+
+// Set while values that went through middleware once already are written back
+let bypassed = false
+
+export function useMiddleware(
+	target: StoreClass | Store,
+	middleware: Middleware,
+	options: MiddlewareOptions = {}
+): () => void {
+	const registration = { middleware, nested: options.nested ?? false }
+	middlewareMap.set(target, [...(middlewareMap.get(target) ?? []), registration])
+	return () => {
+		const registrations = middlewareMap.get(target) ?? []
+		middlewareMap.set(
+			target,
+			registrations.filter((item) => item !== registration)
+		)
+	}
+}
+
+export function copyMiddleware(source: Store, target: Store): void {
+	const registrations = middlewareMap.get(source)
+	if (registrations) middlewareMap.set(target, [...registrations])
+}
+
+function registrationsOf(store: Store): Registration[] {
+	const classRegistrations = classChain(store)
+		.reverse()
+		.flatMap((storeClass) => middlewareMap.get(storeClass) ?? [])
+	return [...classRegistrations, ...(middlewareMap.get(store) ?? [])]
+}
+
+export const currentDelegations = (): Delegation[] => activeDelegations
+
+export function delegated<TResult>(delegations: Delegation[], operation: () => TResult): TResult {
+	const outerDelegations = activeDelegations
+	activeDelegations = delegations
+	try {
+		return operation()
+	} finally {
+		activeDelegations = outerDelegations
+	}
+}
+
+export function delegateTo<TResult>(
+	parent: Store,
+	prefix: string,
+	operation: () => TResult
+): TResult {
+	return delegated([...activeDelegations, { store: parent, prefix }], operation)
+}
+
+// Values replayed from history have been transformed when they were first written, so
+// middleware doesn't run for them a second time
+export function withoutMiddleware<TResult>(operation: () => TResult): TResult {
+	const outerBypassed = bypassed
+	bypassed = true
+	try {
+		return operation()
+	} finally {
+		bypassed = outerBypassed
+	}
+}
+
+const lastSegment = (path: string, store: Store) =>
+	path
+		? String(parsePath(path, { operation: 'read', storeName: store.constructor.name }).at(-1))
+		: ''
+
+// Nested middleware of the parents runs first, outermost parent first, then that of the store
+export function runMiddleware(
+	store: Store,
+	operation: MiddlewareOperation,
+	path: string,
+	value: MiddlewareValue,
+	access: (value: MiddlewareValue) => MiddlewareValue,
+	delegations: Delegation[] = activeDelegations
+): MiddlewareValue {
+	if (bypassed) return access(value)
+	const ran = delegations.map((delegation) => delegation.middlewareRan === true).lastIndexOf(true)
+	const layers = delegations.flatMap(({ store: parent }, index) => {
+		if (index <= ran) return []
+		const prefix = delegations
+			.slice(index)
+			.map((delegation) => delegation.prefix)
+			.join(':')
+		return registrationsOf(parent)
+			.filter((registration) => registration.nested)
+			.map(({ middleware }) => ({ middleware, path: path ? `${prefix}:${path}` : prefix }))
+	})
+	layers.push(...registrationsOf(store).map(({ middleware }) => ({ middleware, path })))
+	if (layers.length === 0) return access(value)
+
+	const run = (index: number, current: MiddlewareValue): MiddlewareValue => {
+		const layer = layers[index]
+		if (!layer) return access(current)
+		const context: MiddlewareContext = {
+			operation,
+			path: layer.path,
+			value: current,
+			store,
+			veto: (reason) => {
+				throw new OperationVetoedError(
+					{
+						path,
+						segment: lastSegment(path, store),
+						operation: operation === 'read' ? 'read' : 'write',
+						storeName: store.constructor.name,
+					},
+					reason
+				)
+			},
+		}
+		return layer.middleware(context, (next = current) => run(index + 1, next))
+	}
+	return run(0, value)
+}
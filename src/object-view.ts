@@ -0,0 +1,68 @@
+import { currentActor, runAs } from './actor'
+import { formatPath } from './path'
+import { rawValueAt, Store, type StoreValue } from './store'
+import type { DynamicView } from './typed-paths'
+
+interface ViewTarget {
+	root: Store
+	keys: string[]
+}
+
+// Views remember where they point so that assigning one writes the store behind it
+const viewTargets: WeakMap<object, ViewTarget> = new WeakMap()
+
+// Keys that await, JSON.stringify and other code look up on any object they are given
+const wellKnownKeys = new Set(['then', 'toJSON', ...Object.getOwnPropertyNames(Object.prototype)])
+
+// Nested views keep addressing the root store, so that its path rules apply to every access.
+// Traps run as the actor the view was created for, wherever the view is used later.
+function createView(root: Store, keys: string[]): DynamicView {
+	const actor = currentActor()
+	const asActor = <TResult>(operation: () => TResult) => runAs(actor, operation)
+	const pathOf = (key: string) => formatPath([...keys, key])
+	// Well-known keys the store holds no value for are not read at all
+	const readKey = (key: string) => {
+		if (wellKnownKeys.has(key) && rawValueAt(root, [...keys, key]) === undefined) return undefined
+		const value = root.read(pathOf(key))
+		return value instanceof Store ? createView(root, [...keys, key]) : value
+	}
+	const unwrap = (value: StoreValue) => {
+		const target = typeof value === 'object' && value !== null && viewTargets.get(value)
+		return target ? target.root.read(formatPath(target.keys)) : value
+	}
+
+	const view = new Proxy<DynamicView>(
+		{},
+		{
+			get: (_, key) => (typeof key === 'string' ? asActor(() => readKey(key)) : undefined),
+			set: (_, key, value) => {
+				if (typeof key !== 'string') return false
+				asActor(() => root.write(pathOf(key), unwrap(value)))
+				return true
+			},
+			has: (_, key) => typeof key === 'string' && asActor(() => root.has(pathOf(key))),
+			deleteProperty: (_, key) => {
+				if (typeof key !== 'string') return false
+				asActor(() => root.delete(pathOf(key)))
+				return true
+			},
+			ownKeys: () => asActor(() => (keys.length > 0 ? root.keys(formatPath(keys)) : root.keys())),
+			getOwnPropertyDescriptor: (_, key) => {
+				if (typeof key !== 'string' || !asActor(() => root.has(pathOf(key)))) return undefined
+				const value = asActor(() => readKey(key))
+				return { value, writable: true, enumerable: true, configurable: true }
+			},
+			defineProperty: (_, key, descriptor) => {
+				if (typeof key !== 'string' || !('value' in descriptor)) return false
+				asActor(() => root.write(pathOf(key), unwrap(descriptor.value)))
+				return true
+			},
+		}
+	)
+	viewTargets.set(view, { root, keys })
+	return view
+}
+
+export function objectView(store: Store): DynamicView {
+	return createView(store, [])
+}
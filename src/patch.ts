@@ -0,0 +1,211 @@
+import { InvalidPathError, PatchTestError, PathSyntaxError, PermissionDeniedError } from './errors'
+import type { JSONArray, JSONObject, JSONValue } from './json-types'
+import { formatPath, isIndex } from './path'
+import { createSnapshot } from './snapshot'
+import { Store, type StoreResult } from './store'
+
+export type PatchOperation =
+	| { op: 'add'; path: string; value: JSONValue }
+	| { op: 'remove'; path: string }
+	| { op: 'replace'; path: string; value: JSONValue }
+	| { op: 'move'; from: string; path: string }
+	| { op: 'copy'; from: string; path: string }
+	| { op: 'test'; path: string; value: JSONValue }
+
+const isJSONObject = (value: StoreResult): value is JSONObject => value?.constructor === Object
+
+// Encrypted values are compared and copied opened, since sealing the same value twice differs
+const toJSON = (value: StoreResult): JSONValue | undefined =>
+	value instanceof Store ? createSnapshot(value, { decrypt: true }) : value
+
+export function isDeepEqual(left: JSONValue | undefined, right: JSONValue | undefined): boolean {
+	if (Array.isArray(left) && Array.isArray(right)) {
+		return (
+			left.length === right.length && left.every((item, index) => isDeepEqual(item, right[index]))
+		)
+	}
+	if (isJSONObject(left) && isJSONObject(right)) {
+		const keys = Object.keys(left)
+		return (
+			keys.length === Object.keys(right).length &&
+			keys.every((key) => Object.hasOwn(right, key) && isDeepEqual(left[key], right[key]))
+		)
+	}
+	return left === right
+}
+
+export function parsePointer(pointer: string, storeName: string): string[] {
+	if (pointer === '') return []
+	if (!pointer.startsWith('/')) {
+		throw new PathSyntaxError(
+			{ path: pointer, segment: pointer, operation: 'write', storeName, position: 0 },
+			'a JSON pointer must start with "/"'
+		)
+	}
+	return pointer
+		.slice(1)
+		.split('/')
+		.map((key) => key.replaceAll('~1', '/').replaceAll('~0', '~'))
+}
+
+export const formatPointer = (keys: string[]) =>
+	keys.map((key) => `/${key.replaceAll('~', '~0').replaceAll('/', '~1')}`).join('')
+
+function diffValues(
+	source: JSONValue | undefined,
+	target: JSONValue | undefined,
+	keys: string[],
+	operations: PatchOperation[]
+): void {
+	if (isDeepEqual(source, target)) return
+	const path = formatPointer(keys)
+
+	if (Array.isArray(source) && Array.isArray(target)) {
+		const shared = Math.min(source.length, target.length)
+		for (let index = 0; index < shared; index++) {
+			diffValues(source[index], target[index], [...keys, `${index}`], operations)
+		}
+		for (let index = shared; index < target.length; index++) {
+			operations.push({ op: 'add', path: `${path}/${index}`, value: target[index] as JSONValue })
+		}
+		// Removed from the end so that earlier indices stay valid
+		for (let index = source.length - 1; index >= shared; index--) {
+			operations.push({ op: 'remove', path: `${path}/${index}` })
+		}
+		return
+	}
+
+	if (isJSONObject(source) && isJSONObject(target)) {
+		for (const key of Object.keys(source)) {
+			if (!Object.hasOwn(target, key)) {
+				operations.push({ op: 'remove', path: formatPointer([...keys, key]) })
+			}
+		}
+		for (const [key, value] of Object.entries(target)) {
+			if (Object.hasOwn(source, key)) diffValues(source[key], value, [...keys, key], operations)
+			else operations.push({ op: 'add', path: formatPointer([...keys, key]), value })
+		}
+		return
+	}
+
+	operations.push({ op: 'replace', path, value: target as JSONValue })
+}
+
+// Both trees are compared as their snapshots, so keys that can't be read are left out
+export function diffStores(store: Store, other: Store): PatchOperation[] {
+	const operations: PatchOperation[] = []
+	diffValues(toJSON(store), toJSON(other), [], operations)
+	return operations
+}
+
+const detailsOf = (store: Store, keys: string[]) => ({
+	path: formatPath(keys),
+	segment: keys[keys.length - 1] ?? '',
+	operation: 'write' as const,
+	storeName: store.constructor.name,
+})
+
+function keysOf(store: Store, pointer: string): string[] {
+	const keys = parsePointer(pointer, store.constructor.name)
+	if (keys.length === 0) {
+		throw new InvalidPathError(
+			{ ...detailsOf(store, keys), path: pointer },
+			'the root of a store cannot be patched'
+		)
+	}
+	return keys
+}
+
+const readAt = (store: Store, keys: string[]): StoreResult =>
+	keys.length === 0 ? store : store.read(formatPath(keys))
+
+function assertWritable(store: Store, keys: string[]): void {
+	if (!store.allowedToWrite(formatPath(keys))) {
+		throw new PermissionDeniedError(detailsOf(store, keys))
+	}
+}
+
+function assertExists(store: Store, keys: string[]): void {
+	if (readAt(store, keys) === undefined) {
+		throw new InvalidPathError(detailsOf(store, keys), `"${formatPointer(keys)}" does not exist`)
+	}
+}
+
+function insertIndex(store: Store, array: JSONArray, keys: string[]): number {
+	const key = keys[keys.length - 1] as string
+	const index = key === '-' ? array.length : Number(key)
+	if ((key !== '-' && !isIndex(key)) || index > array.length) {
+		throw new InvalidPathError(detailsOf(store, keys), `"${key}" is not an index of the array`)
+	}
+	return index
+}
+
+// Inserting into an array rewrites the array holding the item
+function addValue(store: Store, keys: string[], value: JSONValue): void {
+	const parentKeys = keys.slice(0, -1)
+	const parent = readAt(store, parentKeys)
+	if (Array.isArray(parent)) {
+		const index = insertIndex(store, parent, keys)
+		assertWritable(store, [...parentKeys, `${index}`])
+		store.write(formatPath(parentKeys), [...parent.slice(0, index), value, ...parent.slice(index)])
+		return
+	}
+	assertWritable(store, keys)
+	store.write(formatPath(keys), value)
+}
+
+function removeValue(store: Store, keys: string[]): void {
+	assertExists(store, keys)
+	assertWritable(store, keys)
+	store.delete(formatPath(keys))
+}
+
+function valueAt(store: Store, keys: string[]): JSONValue {
+	assertExists(store, keys)
+	return toJSON(readAt(store, keys)) as JSONValue
+}
+
+function applyOperation(store: Store, operation: PatchOperation): void {
+	const keys = keysOf(store, operation.path)
+	switch (operation.op) {
+		case 'add':
+			addValue(store, keys, operation.value)
+			break
+		case 'remove':
+			removeValue(store, keys)
+			break
+		case 'replace':
+			assertExists(store, keys)
+			assertWritable(store, keys)
+			store.write(formatPath(keys), operation.value)
+			break
+		case 'move': {
+			const fromKeys = keysOf(store, operation.from)
+			if (fromKeys.length < keys.length && fromKeys.every((key, index) => keys[index] === key)) {
+				throw new InvalidPathError(
+					detailsOf(store, keys),
+					`"${operation.from}" cannot be moved into one of its children`
+				)
+			}
+			const value = valueAt(store, fromKeys)
+			removeValue(store, fromKeys)
+			addValue(store, keys, value)
+			break
+		}
+		case 'copy':
+			addValue(store, keys, valueAt(store, keysOf(store, operation.from)))
+			break
+		case 'test':
+			if (!isDeepEqual(toJSON(readAt(store, keys)), operation.value)) {
+				throw new PatchTestError({ ...detailsOf(store, keys), operation: 'read' })
+			}
+			break
+	}
+}
+
+// Operations run in one transaction, so a failing operation leaves the store untouched
+export function applyPatch(store: Store, operations: PatchOperation[]): void {
+	store.transaction(() => {
+		for (const operation of operations) applyOperation(store, operation)
+	})
+}
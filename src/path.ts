@@ -0,0 +1,73 @@
+import { PathSyntaxError, type StoreOperation } from './errors'
+
+export const PATH_SEPARATOR = ':'
+export const ESCAPE = '\\'
+export const WILDCARD: unique symbol = Symbol('wildcard')
+export const GLOBSTAR: unique symbol = Symbol('globstar')
+
+export type PathSegment = string | typeof WILDCARD | typeof GLOBSTAR
+
+export interface PathContext {
+	operation: StoreOperation
+	storeName: string
+}
+
+export const isIndex = (segment: PathSegment): segment is string =>
+	typeof segment === 'string' && /^(0|[1-9]\d*)$/.test(segment)
+
+export const escapeKey = (key: string) => key.replace(/[\\:*]/g, `${ESCAPE}$&`)
+
+export const formatPath = (segments: PathSegment[]) =>
+	segments
+		.map((segment) => {
+			if (segment === WILDCARD) return '*'
+			if (segment === GLOBSTAR) return '**'
+			return escapeKey(segment)
+		})
+		.join(PATH_SEPARATOR)
+
+// Grammar: segments separated by ":", "\" escapes the next character, a lone "*" matches any key
+// and a lone "**" matches any number of keys
+export function parsePath(path: string, context: PathContext): PathSegment[] {
+	const segments: PathSegment[] = []
+	let segment = ''
+	let escaped = false
+	let wildcard = false
+	let segmentStart = 0
+
+	const fail = (reason: string, position: number): never => {
+		throw new PathSyntaxError({ ...context, path, segment, position }, reason)
+	}
+
+	const endSegment = (position: number) => {
+		if (wildcard) {
+			if (segment !== '*' && segment !== '**') fail('"*" must be a whole segment', segmentStart)
+			segments.push(segment === '*' ? WILDCARD : GLOBSTAR)
+		} else {
+			if (segment === '') fail('empty segment', position)
+			segments.push(segment)
+		}
+		segment = ''
+		wildcard = false
+		segmentStart = position + 1
+	}
+
+	for (let position = 0; position < path.length; position++) {
+		const char = path.charAt(position)
+		if (escaped) {
+			segment += char
+			escaped = false
+		} else if (char === ESCAPE) {
+			escaped = true
+		} else if (char === PATH_SEPARATOR) {
+			endSegment(position)
+		} else {
+			if (char === '*') wildcard = true
+			segment += char
+		}
+	}
+
+	if (escaped) fail('unterminated escape', path.length - 1)
+	endSegment(path.length)
+	return segments
+}
@@ -0,0 +1,92 @@
+import { type Actor, type PermissionRule, runAs } from './actor'
+import { pathRulesOf } from './rules'
+import type { Permission, Store } from './store'
+
+export type StoreClass = abstract new (...args: never[]) => Store
+
+export interface KeyPermission {
+	key: string
+	permission: Permission
+	rule: PermissionRule
+	declaredBy: string
+}
+
+export interface PathRulePermission {
+	pattern: string
+	rule: PermissionRule
+	declaredBy: string
+}
+
+export interface PermissionDescription {
+	storeName: string
+	defaultPolicy: Permission
+	keys: KeyPermission[]
+	pathRules: PathRulePermission[]
+}
+
+// Field rules are keyed by the constructor itself, so classes sharing a name never collide
+const fieldRulesMap: WeakMap<object, Map<string, PermissionRule>> = new WeakMap()
+
+// Set while history puts back values that were written with the permissions of their time
+let unchecked = false
+
+export const checksPermissions = () => !unchecked
+
+export function withoutPermissionChecks<TResult>(operation: () => TResult): TResult {
+	const outerUnchecked = unchecked
+	unchecked = true
+	try {
+		return operation()
+	} finally {
+		unchecked = outerUnchecked
+	}
+}
+
+// Walks from the class of the store up to, and including, the base Store class
+export function classChain(target: Store | StoreClass): StoreClass[] {
+	const chain: StoreClass[] = []
+	let currentClass = typeof target === 'function' ? target : (target.constructor as StoreClass)
+	while (typeof currentClass === 'function' && currentClass !== Function.prototype) {
+		chain.push(currentClass)
+		currentClass = Object.getPrototypeOf(currentClass)
+	}
+	return chain
+}
+
+export function registerFieldRule(target: object, key: string, rule: PermissionRule): void {
+	const rules = fieldRulesMap.get(target) ?? new Map()
+	rules.set(key, rule)
+	fieldRulesMap.set(target, rules)
+}
+
+export function findFieldRule(store: Store, key: string): PermissionRule | undefined {
+	for (const storeClass of classChain(store)) {
+		const rule = fieldRulesMap.get(storeClass)?.get(key)
+		if (rule !== undefined) return rule
+	}
+	return undefined
+}
+
+// Classes are instantiated without arguments to find their default policy
+export function describePermissions(
+	target: Store | StoreClass,
+	actor?: Actor
+): PermissionDescription {
+	const store = typeof target === 'function' ? Reflect.construct(target, []) : target
+	const keys = new Map<string, KeyPermission>()
+
+	for (const storeClass of classChain(store)) {
+		for (const [key, rule] of fieldRulesMap.get(storeClass) ?? []) {
+			if (keys.has(key)) continue
+			const permission = runAs(actor, () => store.permissionFor(key))
+			keys.set(key, { key, permission, rule, declaredBy: storeClass.name })
+		}
+	}
+
+	return {
+		storeName: store.constructor.name,
+		defaultPolicy: store.defaultPolicy,
+		keys: [...keys.values()],
+		pathRules: pathRulesOf(store),
+	}
+}
@@ -0,0 +1,77 @@
+import { currentActor, evaluateRule, type PermissionRule } from './actor'
+import { formatPath, GLOBSTAR, type PathSegment, parsePath, WILDCARD } from './path'
+import { classChain, type PathRulePermission, type StoreClass } from './permissions'
+import type { Permission, Store } from './store'
+
+interface PathRule {
+	pattern: PathSegment[]
+	permission: PermissionRule
+	specificity: number
+	declaredBy: string
+}
+
+// Rules are kept per constructor for decorated classes and per instance for single stores
+const pathRulesMap: WeakMap<object, PathRule[]> = new WeakMap()
+
+// Literal segments weigh more than "*", which weighs more than "**"
+const specificityOf = (pattern: PathSegment[]) =>
+	pattern.reduce<number>((score, segment) => {
+		if (segment === GLOBSTAR) return score
+		return score + (segment === WILDCARD ? 1 : 2)
+	}, 0)
+
+export function matches(pattern: PathSegment[], path: string[]): boolean {
+	const [segment, ...rest] = pattern
+	if (segment === undefined) return path.length === 0
+	if (segment === GLOBSTAR) {
+		return path.some((_, index) => matches(rest, path.slice(index))) || matches(rest, [])
+	}
+	const [key, ...childKeys] = path
+	if (key === undefined) return false
+	return (segment === WILDCARD || segment === key) && matches(rest, childKeys)
+}
+
+export function definePathRule(
+	target: StoreClass | Store,
+	pattern: string,
+	permission: PermissionRule
+): void {
+	const declaredBy = typeof target === 'function' ? target.name : target.constructor.name
+	const segments = parsePath(pattern, { operation: 'read', storeName: declaredBy })
+	const rules = pathRulesMap.get(target) ?? []
+	rules.push({ pattern: segments, permission, specificity: specificityOf(segments), declaredBy })
+	pathRulesMap.set(target, rules)
+}
+
+export function copyPathRules(source: Store, target: Store): void {
+	const rules = pathRulesMap.get(source)
+	if (rules) pathRulesMap.set(target, [...rules])
+}
+
+function rulesOf(store: Store): PathRule[] {
+	const classRules = classChain(store)
+		.reverse()
+		.flatMap((storeClass) => pathRulesMap.get(storeClass) ?? [])
+	return [...classRules, ...(pathRulesMap.get(store) ?? [])]
+}
+
+export const hasPathRules = (store: Store): boolean => rulesOf(store).length > 0
+
+export function pathRulesOf(store: Store): PathRulePermission[] {
+	return rulesOf(store).map(({ pattern, permission, declaredBy }) => ({
+		pattern: formatPath(pattern),
+		rule: permission,
+		declaredBy,
+	}))
+}
+
+// The most specific matching rule wins, the latest declared one on a tie
+export function pathRulePermission(store: Store, path: string[]): Permission | undefined {
+	let winner: PathRule | undefined
+	for (const rule of rulesOf(store)) {
+		if (!matches(rule.pattern, path)) continue
+		if (!winner || rule.specificity >= winner.specificity) winner = rule
+	}
+	if (!winner) return undefined
+	return evaluateRule(winner.permission, currentActor(), formatPath(path), undefined)
+}
@@ -0,0 +1,208 @@
+import { ValidationError, type ValidationIssue } from './errors'
+import type { JSONArray, JSONPrimitive } from './json-types'
+import { escapeKey } from './path'
+import { classChain, type StoreClass } from './permissions'
+import { Store, type StoreValue } from './store'
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'array' | 'object'
+
+export type UnknownKeyPolicy = 'allow' | 'strip' | 'reject'
+
+export interface FieldSchema {
+	type?: SchemaType | SchemaType[]
+	enum?: JSONPrimitive[]
+	minimum?: number
+	maximum?: number
+	minLength?: number
+	maxLength?: number
+	pattern?: string
+	minItems?: number
+	maxItems?: number
+	items?: FieldSchema
+	properties?: Record<string, FieldSchema>
+	required?: string[]
+	unknownKeys?: UnknownKeyPolicy
+}
+
+export interface StoreSchema {
+	properties: Record<string, FieldSchema>
+	unknownKeys?: UnknownKeyPolicy
+}
+
+export interface CheckedEntry {
+	skip: boolean
+	value: StoreValue
+}
+
+// Schemas are kept per constructor for decorated classes and per instance for nested stores
+const schemaMap: WeakMap<object, StoreSchema> = new WeakMap()
+
+const joinPath = (path: string, key: string) =>
+	path ? `${path}:${escapeKey(key)}` : escapeKey(key)
+
+function typeOf(value: StoreValue): SchemaType | undefined {
+	if (value === null) return 'null'
+	if (Array.isArray(value)) return 'array'
+	if (value instanceof Store || value?.constructor === Object) return 'object'
+	if (typeof value === 'string') return 'string'
+	if (typeof value === 'boolean') return 'boolean'
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+	return undefined
+}
+
+const matchesType = (actual: SchemaType, expected: SchemaType) =>
+	actual === expected || (actual === 'integer' && expected === 'number')
+
+export function Schema(schema: FieldSchema): PropertyDecorator {
+	return (target: object, propertyKey: string | symbol) => {
+		const existing = schemaMap.get(target.constructor)
+		const properties = { ...existing?.properties, [propertyKey.toString()]: schema }
+		schemaMap.set(target.constructor, { ...existing, properties })
+	}
+}
+
+export function defineSchema(target: StoreClass | Store, schema: StoreSchema): void {
+	schemaMap.set(target, schema)
+}
+
+// Merges the schemas of the class chain, the nearest definition winning for each property
+export function schemaOf(store: Store): StoreSchema | undefined {
+	const instanceSchema = schemaMap.get(store)
+	if (instanceSchema) return instanceSchema
+
+	const chain = classChain(store)
+		.reverse()
+		.flatMap((storeClass) => schemaMap.get(storeClass) ?? [])
+	if (chain.length === 0) return undefined
+
+	return chain.reduce((merged, schema) => ({
+		properties: { ...merged.properties, ...schema.properties },
+		unknownKeys: schema.unknownKeys ?? merged.unknownKeys,
+	}))
+}
+
+export function assignFieldSchema(store: Store, schema: FieldSchema | undefined): void {
+	if (!schema?.properties) return
+	schemaMap.set(store, { properties: schema.properties, unknownKeys: schema.unknownKeys })
+}
+
+export function fieldSchemaOf(store: Store, key: string): FieldSchema | undefined {
+	return schemaOf(store)?.properties[key]
+}
+
+export function checkValue(
+	value: StoreValue,
+	schema: FieldSchema,
+	path: string,
+	issues: ValidationIssue[]
+): StoreValue {
+	const actual = typeOf(value)
+	if (value === undefined || actual === undefined) return value
+
+	const fail = (message: string) => {
+		issues.push({ path, message })
+		return value
+	}
+
+	if (schema.type) {
+		const expected = Array.isArray(schema.type) ? schema.type : [schema.type]
+		if (!expected.some((type) => matchesType(actual, type))) {
+			return fail(`expected ${expected.join(' or ')}, got ${actual}`)
+		}
+	}
+	if (schema.enum && !schema.enum.includes(value as JSONPrimitive)) {
+		fail(`expected one of ${schema.enum.map((item) => JSON.stringify(item)).join(', ')}`)
+	}
+
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			fail(`must be at least ${schema.minimum}`)
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			fail(`must be at most ${schema.maximum}`)
+		}
+	}
+
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			fail(`must be at least ${schema.minLength} characters long`)
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			fail(`must be at most ${schema.maxLength} characters long`)
+		}
+		if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+			fail(`must match ${schema.pattern}`)
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			fail(`must have at least ${schema.minItems} items`)
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			fail(`must have at most ${schema.maxItems} items`)
+		}
+		const { items } = schema
+		if (items) {
+			return value.map((item, index) =>
+				checkValue(item, items, joinPath(path, `${index}`), issues)
+			) as JSONArray
+		}
+	}
+
+	if (value?.constructor === Object) {
+		const entries = value as Record<string, StoreValue>
+		const checked: Record<string, StoreValue> = {}
+		for (const key of schema.required ?? []) {
+			if (entries[key] === undefined) {
+				issues.push({ path: joinPath(path, key), message: 'is required' })
+			}
+		}
+		for (const [key, item] of Object.entries(entries)) {
+			const entry = checkEntry(schema, key, item, joinPath(path, key), issues)
+			if (!entry.skip) checked[key] = entry.value
+		}
+		return checked as StoreValue
+	}
+
+	return value
+}
+
+export function checkEntry(
+	schema: FieldSchema | StoreSchema | undefined,
+	key: string,
+	value: StoreValue,
+	path: string,
+	issues: ValidationIssue[]
+): CheckedEntry {
+	const fieldSchema = schema?.properties?.[key]
+	if (fieldSchema) return { skip: false, value: checkValue(value, fieldSchema, path, issues) }
+	if (!schema?.properties) return { skip: false, value }
+
+	switch (schema.unknownKeys ?? 'allow') {
+		case 'strip':
+			return { skip: true, value }
+		case 'reject':
+			issues.push({ path, message: 'is not a known key' })
+			return { skip: true, value }
+		default:
+			return { skip: false, value }
+	}
+}
+
+export function validateEntry(
+	store: Store,
+	key: string,
+	value: StoreValue,
+	path: string
+): CheckedEntry {
+	const issues: ValidationIssue[] = []
+	const entry = checkEntry(schemaOf(store), key, value, escapeKey(key), issues)
+	if (issues.length > 0) {
+		throw new ValidationError(
+			{ path, segment: key, operation: 'write', storeName: store.constructor.name },
+			issues
+		)
+	}
+	return entry
+}
@@ -0,0 +1,143 @@
+import { type Actor, currentActor, runAs } from './actor'
+import { PermissionDeniedError, type StoreOperation } from './errors'
+import type { JSONObject, JSONValue } from './json-types'
+import { formatPath, type PathSegment, parsePath } from './path'
+import { type Permission, Store, type StoreResult, type StoreValue } from './store'
+
+// Scopes grant plain read and write, finer permissions stay with the keys of the root store
+export type ScopePermission = Extract<Permission, 'r' | 'w' | 'rw' | 'none'>
+
+export type ScopedResult = StoreScope | JSONValue | undefined
+
+const allows = (permission: ScopePermission, operation: StoreOperation) =>
+	permission === 'rw' || permission === (operation === 'read' ? 'r' : 'w')
+
+// A nested scope keeps only what both permissions grant
+function narrow(outer: ScopePermission, inner: ScopePermission): ScopePermission {
+	const read = allows(outer, 'read') && allows(inner, 'read')
+	const write = allows(outer, 'write') && allows(inner, 'write')
+	if (read) return write ? 'rw' : 'r'
+	return write ? 'w' : 'none'
+}
+
+// Paths are appended to the prefix as plain segments, so ".." is just a key below the prefix.
+// The root store is held in private fields and nested stores are handed out as scopes, so a
+// scope never gives access to anything outside of its prefix. The root store is used as the
+// actor the scope was created for, and nested scopes inherit that actor.
+export class StoreScope {
+	readonly #root: Store
+	readonly #prefix: PathSegment[]
+	readonly #actor: Actor | undefined
+	readonly permission: ScopePermission
+
+	constructor(root: Store, prefix: PathSegment[], permission: ScopePermission) {
+		this.#root = root
+		this.#prefix = prefix
+		this.#actor = currentActor()
+		this.permission = permission
+	}
+
+	get prefix(): string {
+		return formatPath(this.#prefix)
+	}
+
+	#segments(path: string, operation: StoreOperation): PathSegment[] {
+		return [...this.#prefix, ...parsePath(path, { operation, storeName: this.#storeName() })]
+	}
+
+	#asActor<TResult>(operation: () => TResult): TResult {
+		return runAs(this.#actor, operation)
+	}
+
+	#storeName(): string {
+		return `${this.#root.constructor.name} scope "${this.prefix}"`
+	}
+
+	#assert(path: string, operation: StoreOperation): void {
+		if (allows(this.permission, operation)) return
+		throw new PermissionDeniedError({
+			path,
+			segment: String(this.#prefix[this.#prefix.length - 1]),
+			operation,
+			permission: this.permission,
+			storeName: this.#storeName(),
+		})
+	}
+
+	// Returns the path below the root store once the scope's own permission allows the operation
+	#checked(path: string, operation: StoreOperation): string {
+		const fullPath = formatPath(this.#segments(path, operation))
+		this.#assert(path, operation)
+		return fullPath
+	}
+
+	// Containers are copied so that mutating them never bypasses the scope
+	#wrap(path: string, value: StoreResult): ScopedResult {
+		if (value instanceof Store) {
+			return new StoreScope(this.#root, this.#segments(path, 'read'), this.permission)
+		}
+		return typeof value === 'object' && value !== null ? structuredClone(value) : value
+	}
+
+	allowedToRead(path: string): boolean {
+		const fullPath = formatPath(this.#segments(path, 'read'))
+		return (
+			allows(this.permission, 'read') && this.#asActor(() => this.#root.allowedToRead(fullPath))
+		)
+	}
+
+	allowedToWrite(path: string): boolean {
+		const fullPath = formatPath(this.#segments(path, 'write'))
+		return (
+			allows(this.permission, 'write') && this.#asActor(() => this.#root.allowedToWrite(fullPath))
+		)
+	}
+
+	read(path: string): ScopedResult {
+		return this.#asActor(() => this.#wrap(path, this.#root.read(this.#checked(path, 'read'))))
+	}
+
+	async readAsync(path: string): Promise<ScopedResult> {
+		const fullPath = this.#checked(path, 'read')
+		const value = await this.#asActor(() => this.#root.readAsync(fullPath))
+		return this.#asActor(() => this.#wrap(path, value))
+	}
+
+	write(path: string, value: StoreValue): void {
+		this.#asActor(() => this.#root.write(this.#checked(path, 'write'), value))
+	}
+
+	writeEntries(entries: JSONObject): void {
+		this.#assert('', 'write')
+		this.#asActor(() =>
+			this.#root.transaction((root) => {
+				for (const [key, value] of Object.entries(entries)) {
+					root.write(formatPath([...this.#prefix, key]), value)
+				}
+			})
+		)
+	}
+
+	delete(path: string): boolean {
+		return this.#asActor(() => this.#root.delete(this.#checked(path, 'write')))
+	}
+
+	has(path: string): boolean {
+		return this.#asActor(() => this.#root.has(this.#checked(path, 'read')))
+	}
+
+	keys(path?: string): string[] {
+		if (path !== undefined) {
+			return this.#asActor(() => this.#root.keys(this.#checked(path, 'read')))
+		}
+		this.#assert('', 'read')
+		return this.#asActor(() => this.#root.keys(this.prefix))
+	}
+
+	scope(prefix: string, permission: ScopePermission = 'rw'): StoreScope {
+		const segments = this.#segments(prefix, 'read')
+		return this.#asActor(
+			() => new StoreScope(this.#root, segments, narrow(this.permission, permission))
+		)
+	}
+}
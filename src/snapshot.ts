@@ -0,0 +1,210 @@
+import { computedKeys, computeValue, isComputedKey } from './computed'
+import { encryptsKey, isSealed, open, SealedValue, sealField } from './encryption'
+import { DecryptionError, InvalidPathError } from './errors'
+import type { JSONObject, JSONValue } from './json-types'
+import { escapeKey } from './path'
+import { Store, type StoreValue } from './store'
+import { attachChild } from './subscriptions'
+
+// Encrypted keys are exported as ciphertext unless decrypt is set
+export interface SnapshotOptions {
+	resolveLazy?: boolean
+	decrypt?: boolean
+}
+
+// Stores met a second time are written as { $ref: path } where path points to their first occurrence
+export interface SnapshotReference {
+	$ref: string
+}
+
+// Keys of stored values reading like "$ref" are exported with one more "$", so that no value
+// passes for a reference
+const referenceKey = /^\$+ref$/
+
+const escapeReferenceKey = (key: string) => (referenceKey.test(key) ? `$${key}` : key)
+
+const unescapeReferenceKey = (key: string) => (referenceKey.test(key) ? key.slice(1) : key)
+
+// Plain values, not stores, written to a snapshot as they are
+export function escapeReferences(value: JSONValue): JSONValue {
+	if (Array.isArray(value)) return value.map(escapeReferences)
+	if (typeof value !== 'object' || value === null) return value
+	return Object.fromEntries(
+		Object.entries(value).map(([key, item]) => [escapeReferenceKey(key), escapeReferences(item)])
+	)
+}
+
+function unescapeReferences(value: JSONValue): JSONValue {
+	if (Array.isArray(value)) return value.map(unescapeReferences)
+	if (typeof value !== 'object' || value === null) return value
+	return Object.fromEntries(
+		Object.entries(value).map(([key, item]) => [
+			unescapeReferenceKey(key),
+			unescapeReferences(item),
+		])
+	)
+}
+
+const internalKeys = new Set(['defaultPolicy', 'nestedWritePolicy', 'data'])
+
+const joinPath = (parentPath: string, key: string) =>
+	parentPath ? `${parentPath}:${escapeKey(key)}` : escapeKey(key)
+
+export const isReference = (value: JSONValue): value is JSONObject & SnapshotReference =>
+	typeof value === 'object' &&
+	value !== null &&
+	!Array.isArray(value) &&
+	Object.keys(value).length === 1 &&
+	typeof value.$ref === 'string'
+
+export function storeKeys(store: Store): string[] {
+	const fieldKeys = Object.keys(store).filter((key) => !internalKeys.has(key))
+	return [...new Set([...fieldKeys, ...store.data.keys(), ...computedKeys(store)])]
+}
+
+// Computed keys hold no value of their own, so their current result stands in for it
+export function rawValue(store: Store, key: string): StoreValue {
+	if (isComputedKey(store, key)) return computeValue(store, key)
+	if (store.data.has(key)) return store.data.get(key)
+	// Only class fields count, not methods or the internals of the store
+	if (!Object.hasOwn(store, key) || internalKeys.has(key)) return undefined
+	return sealField(store, key, store[key as keyof Store] as StoreValue)
+}
+
+// Stores held by class fields are only linked to their parent once read. Listeners on a parent
+// link them up front, so that writes made directly to them are seen from the start.
+export function linkFieldStores(store: Store, seen: Set<Store> = new Set()): void {
+	if (seen.has(store)) return
+	seen.add(store)
+	for (const key of storeKeys(store)) {
+		if (isComputedKey(store, key)) continue
+		const value = rawValue(store, key)
+		if (!(value instanceof Store)) continue
+		if (!store.data.has(key)) attachChild(store, key, value)
+		linkFieldStores(value, seen)
+	}
+}
+
+// Raw snapshots keep every key as it is stored, without checking permissions or masking values
+export function createSnapshot(
+	store: Store,
+	options: SnapshotOptions = {},
+	raw = false
+): JSONObject {
+	const seen = new Map<Store, string>()
+	const readable = (path: string) => raw || store.allowedToRead(path)
+
+	// Masked values are exported as read, never in full
+	const masked = (path: string): JSONValue | undefined =>
+		!raw && store.isMasked(path) ? (store.read(path) as JSONValue | undefined) : undefined
+
+	const toJSONValue = (value: StoreValue | undefined, path: string): JSONValue | undefined => {
+		// Asynchronous lazy values are left out, even when resolving lazy values
+		if (typeof value === 'function') {
+			if (!options.resolveLazy) return undefined
+			const resolved = value()
+			return resolved instanceof Promise ? undefined : toJSONValue(resolved, path)
+		}
+		if (isSealed(value)) {
+			if (!options.decrypt) return value.toJSON()
+			const opened = open(value)
+			if (opened === undefined) {
+				const segment = path.split(':').at(-1) ?? ''
+				throw new DecryptionError({
+					path,
+					segment,
+					operation: 'read',
+					storeName: store.constructor.name,
+				})
+			}
+			return toJSONValue(opened, path)
+		}
+		if (value instanceof Store) {
+			const firstPath = seen.get(value)
+			return firstPath === undefined ? toJSONObject(value, path) : { $ref: firstPath }
+		}
+		if (Array.isArray(value)) {
+			return value.map((item, index) => toJSONValue(item, joinPath(path, `${index}`)) ?? null)
+		}
+		if (typeof value === 'object' && value !== null) {
+			const values: JSONObject = {}
+			for (const [key, item] of Object.entries(value)) {
+				if (!readable(joinPath(path, key))) continue
+				const json = masked(joinPath(path, key)) ?? toJSONValue(item, joinPath(path, key))
+				if (json !== undefined) values[escapeReferenceKey(key)] = json
+			}
+			return values
+		}
+		return value
+	}
+
+	const toJSONObject = (current: Store, path: string): JSONObject => {
+		seen.set(current, path)
+		const values: JSONObject = {}
+		for (const key of storeKeys(current)) {
+			// Checked from the root so that path rules of every ancestor apply
+			if (!readable(joinPath(path, key))) continue
+			const json =
+				masked(joinPath(path, key)) ?? toJSONValue(rawValue(current, key), joinPath(path, key))
+			if (json !== undefined) values[escapeReferenceKey(key)] = json
+		}
+		return values
+	}
+
+	return toJSONObject(store, '')
+}
+
+// Raw hydration sets values as they were stored, without permissions, middleware or schemas
+const unchanged = (store: Store, key: string, value: StoreValue) =>
+	JSON.stringify(rawValue(store, key)) === JSON.stringify(value)
+
+export function hydrateStore(store: Store, json: JSONObject, raw = false): void {
+	const built = new Map<string, Store>([['', store]])
+	// Exported strings of encrypted keys are the values as they were sealed
+	const restored = (current: Store, key: string, path: string, value: JSONValue): StoreValue => {
+		const parents = current === store ? [] : [{ store, prefix: path }]
+		if (typeof value !== 'string' || !encryptsKey(current, key, parents)) return value
+		return SealedValue.fromJSON(value) ?? value
+	}
+	// Keys already holding the value are left alone, so that read-only fields round-trip
+	const put = (current: Store, key: string, value: StoreValue) => {
+		if (!raw) {
+			if (!(value instanceof Store) && unchanged(current, key, value)) return
+			current.write(escapeKey(key), value)
+			return
+		}
+		if (value instanceof Store) attachChild(current, key, value)
+		current.data.set(key, value)
+	}
+
+	const hydrate = (current: Store, entries: JSONObject, path: string) => {
+		for (const [exportedKey, value] of Object.entries(entries)) {
+			const key = unescapeReferenceKey(exportedKey)
+			// Computed keys are exported but derived again rather than restored
+			if (isComputedKey(current, key)) continue
+			const childPath = joinPath(path, key)
+			if (isReference(value)) {
+				const target = built.get(value.$ref)
+				if (!target) {
+					throw new InvalidPathError({
+						path: childPath,
+						segment: value.$ref,
+						operation: 'write',
+						storeName: current.constructor.name,
+					})
+				}
+				put(current, key, target)
+			} else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+				const existing = rawValue(current, key)
+				const child = existing instanceof Store ? existing : new Store()
+				if (child !== existing) put(current, key, child)
+				built.set(childPath, child)
+				hydrate(child, value, childPath)
+			} else {
+				put(current, key, restored(current, key, path, unescapeReferences(value)))
+			}
+		}
+	}
+
+	store.transaction(() => hydrate(store, json, ''))
+}
@@ -0,0 +1,167 @@
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { isSealed } from './encryption'
+import type { JSONArray, JSONObject, JSONValue } from './json-types'
+import { parsePath } from './path'
+import { createSnapshot, escapeReferences, hydrateStore, linkFieldStores } from './snapshot'
+import { Store, type StoreValue } from './store'
+import { addListener, removeListener, type StoreChange } from './subscriptions'
+
+// A change without a value removes the key it points to
+export interface PersistedChange {
+	path: string
+	value?: JSONValue
+}
+
+export interface StorageAdapter {
+	load(): JSONObject | undefined
+	persist(changes: PersistedChange[], snapshot: () => JSONObject): void
+}
+
+export interface StorageOptions {
+	batchSize?: number
+}
+
+export interface StorageAttachment {
+	flush(): void
+	detach(): void
+}
+
+const pendingLoads: WeakMap<Store, () => void> = new WeakMap()
+
+const isJSONContainer = (value: JSONValue | undefined): value is JSONObject | JSONArray =>
+	typeof value === 'object' && value !== null
+
+function toPersistedValue(value: StoreValue): JSONValue | undefined {
+	if (value instanceof Store) return createSnapshot(value, {}, true)
+	if (typeof value === 'function') return undefined
+	if (isSealed(value)) return value.toJSON()
+	return value === undefined ? undefined : escapeReferences(value)
+}
+
+export function applyChange(json: JSONObject, change: PersistedChange): void {
+	const keys = parsePath(change.path, { operation: 'write', storeName: 'WriteLog' }) as string[]
+	const lastKey = keys.pop()
+	if (lastKey === undefined) return
+
+	let current: JSONObject | JSONArray = json
+	for (const key of keys) {
+		const next: JSONValue | undefined = Array.isArray(current) ? current[Number(key)] : current[key]
+		if (isJSONContainer(next)) {
+			current = next
+		} else {
+			const created: JSONObject = {}
+			if (Array.isArray(current)) current[Number(key)] = created
+			else current[key] = created
+			current = created
+		}
+	}
+
+	if (Array.isArray(current)) {
+		if (change.value === undefined) current.splice(Number(lastKey), 1)
+		else current[Number(lastKey)] = change.value
+	} else if (change.value === undefined) {
+		delete current[lastKey]
+	} else {
+		current[lastKey] = change.value
+	}
+}
+
+export function ensureLoaded(store: Store): void {
+	const load = pendingLoads.get(store)
+	if (!load) return
+	pendingLoads.delete(store)
+	load()
+}
+
+export function attachStorage(
+	store: Store,
+	adapter: StorageAdapter,
+	options: StorageOptions = {}
+): StorageAttachment {
+	const batchSize = options.batchSize ?? 1
+	let pending: PersistedChange[] = []
+	let loading = false
+
+	const flush = () => {
+		ensureLoaded(store)
+		if (pending.length === 0) return
+		const changes = pending
+		pending = []
+		adapter.persist(changes, () => createSnapshot(store, {}, true))
+	}
+
+	const listener = (change: StoreChange) => {
+		if (loading) return
+		pending.push({ path: change.path, value: toPersistedValue(change.newValue) })
+		if (pending.length >= batchSize) flush()
+	}
+
+	pendingLoads.set(store, () => {
+		const json = adapter.load()
+		if (!json) return
+		loading = true
+		try {
+			hydrateStore(store, json, true)
+		} finally {
+			loading = false
+		}
+	})
+	linkFieldStores(store)
+	addListener(store, '', listener)
+
+	return {
+		flush,
+		detach: () => {
+			flush()
+			removeListener(store, '', listener)
+		},
+	}
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+	private snapshot?: JSONObject
+
+	constructor(initial?: JSONObject) {
+		this.snapshot = initial && structuredClone(initial)
+	}
+
+	load(): JSONObject | undefined {
+		return this.snapshot && structuredClone(this.snapshot)
+	}
+
+	persist(_changes: PersistedChange[], snapshot: () => JSONObject): void {
+		this.snapshot = snapshot()
+	}
+}
+
+export class FileStorageAdapter implements StorageAdapter {
+	constructor(readonly filePath: string) {}
+
+	load(): JSONObject | undefined {
+		if (!existsSync(this.filePath)) return undefined
+		return JSON.parse(readFileSync(this.filePath, 'utf8'))
+	}
+
+	persist(_changes: PersistedChange[], snapshot: () => JSONObject): void {
+		writeFileSync(this.filePath, JSON.stringify(snapshot(), null, '\t'))
+	}
+}
+
+export class WriteLogStorageAdapter implements StorageAdapter {
+	constructor(readonly filePath: string) {}
+
+	load(): JSONObject | undefined {
+		if (!existsSync(this.filePath)) return undefined
+
+		const json: JSONObject = {}
+		for (const line of readFileSync(this.filePath, 'utf8').split('\n')) {
+			if (line.trim()) applyChange(json, JSON.parse(line))
+		}
+		return json
+	}
+
+	persist(changes: PersistedChange[]): void {
+		const lines = changes.map((change) => `${JSON.stringify(change)}\n`)
+		appendFileSync(this.filePath, lines.join(''))
+	}
+}
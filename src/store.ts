@@ -1,135 +1,1007 @@
-import type { JSONArray, JSONObject, JSONPrimitive } from './json-types'
+import {
+	type Actor,
+	actorView,
+	currentActor,
+	evaluateRule,
+	type PermissionRule,
+	runAs,
+} from './actor'
+import { type AuditAttachment, type AuditSink, attachAudit, audited } from './audit'
+import { isComputedKey } from './computed'
+import {
+	currentKeyProvider,
+	encryptsKey,
+	isSealed,
+	open,
+	type SealedValue,
+	seal,
+} from './encryption'
+import {
+	AsyncValueError,
+	DecryptionError,
+	InvalidPathError,
+	NotTraversableError,
+	PermissionDeniedError,
+	StoreError,
+	type StoreErrorDetails,
+	type StoreOperation,
+	ValidationError,
+	type ValidationIssue,
+} from './errors'
+import {
+	currentVersion,
+	enableHistory,
+	type HistoryOptions,
+	redo,
+	revert,
+	storeAt,
+	undo,
+} from './history'
+import type { JSONArray, JSONObject, JSONValue } from './json-types'
+import { type CacheStats, isLazy, type Lazy } from './lazy'
+import { assertWithinLimits, type StoreUsage, usageOf } from './limits'
+import { maskValue } from './mask'
+import {
+	currentDelegations,
+	delegated,
+	delegateTo,
+	type Middleware,
+	type MiddlewareOptions,
+	runMiddleware,
+	useMiddleware,
+} from './middleware'
+import { objectView } from './object-view'
+import { applyPatch, diffStores, type PatchOperation } from './patch'
+import {
+	escapeKey,
+	formatPath,
+	GLOBSTAR,
+	isIndex,
+	type PathSegment,
+	parsePath,
+	WILDCARD,
+} from './path'
+import {
+	checksPermissions,
+	describePermissions,
+	findFieldRule,
+	type PermissionDescription,
+	registerFieldRule,
+	type StoreClass,
+} from './permissions'
+import { definePathRule, hasPathRules, pathRulePermission } from './rules'
+import { assignFieldSchema, fieldSchemaOf, validateEntry } from './schema'
+import { type ScopePermission, StoreScope } from './scope'
+import {
+	createSnapshot,
+	hydrateStore,
+	linkFieldStores,
+	rawValue,
+	type SnapshotOptions,
+	storeKeys,
+} from './snapshot'
+import {
+	attachStorage,
+	ensureLoaded,
+	type StorageAdapter,
+	type StorageAttachment,
+	type StorageOptions,
+} from './storage'
+import {
+	addListener,
+	attachChild,
+	detachChild,
+	notifyChange,
+	removeListener,
+	type StoreChange,
+	type StoreListener,
+} from './subscriptions'
+import { deferUntilCommit, recordUndo, runTransaction } from './transactions'
+import {
+	type CheckedPath,
+	type DynamicView,
+	type ObjectView,
+	type PathInput,
+	type PathValue,
+	type RuntimePath,
+	storeShape,
+} from './typed-paths'
 
-export type Permission = 'r' | 'w' | 'rw' | 'none'
+// "t" lets a key be passed through to reach what is below it without reading the key itself,
+// "a" lets a key be written only while it holds no value and "m" lets it be listed and read
+// only through its mask
+export type Permission = 'r' | 'w' | 'rw' | 't' | 'a' | 'ra' | 'm' | 'none'
 
-export type StoreResult = Store | JSONPrimitive | undefined
+export type Access = StoreOperation | 'traverse' | 'append'
 
-export type StoreValue = JSONObject | JSONArray | StoreResult | (() => StoreResult)
+// What writing below a key needs on the key itself
+export type NestedWritePolicy = 'read' | 'traverse' | 'write'
+
+export type StoreResult = Store | JSONValue | undefined
+
+export type LazyResult = StoreResult | Promise<StoreResult>
+
+// Values of encrypted keys are held sealed, and only opened on reads
+export type StoreValue = StoreResult | SealedValue | (() => LazyResult)
 
 export interface IStore {
 	defaultPolicy: Permission
+	nestedWritePolicy: NestedWritePolicy
 	data: Map<unknown, StoreValue>
-	allowedToRead(key: string): boolean
-	allowedToWrite(key: string): boolean
+	allowedToRead(path: string): boolean
+	allowedToWrite(path: string): boolean
+	isMasked(path: string): boolean
+	permissionFor(key: string): Permission
+	as(actor: Actor): this
 	read(path: string): StoreResult
+	readAsync(path: string): Promise<StoreResult>
+	readAll(pattern: string): Map<string, StoreResult>
 	write(path: string, value: StoreValue): StoreValue
 	writeEntries(entries: JSONObject): void
+	delete(path: string): boolean
+	has(path: string): boolean
+	keys(path?: string): string[]
+	clear(path?: string): void
+	transaction<TResult>(operation: (store: this) => TResult): TResult
+	asObject(): DynamicView
+	scope(prefix: string, permission?: ScopePermission): StoreScope
+	diff(other: Store): PatchOperation[]
+	applyPatch(operations: PatchOperation[]): void
+	invalidate(path?: string): void
+	cacheStats(): CacheStats
+	usage(): StoreUsage
 	entries(): JSONObject
+	reencrypt(): number
+	snapshot(options?: SnapshotOptions): JSONObject
+	toJSON(): JSONObject
+	hydrate(json: JSONObject): void
+	attachStorage(adapter: StorageAdapter, options?: StorageOptions): StorageAttachment
+	attachAudit(sink: AuditSink): AuditAttachment
+	use(middleware: Middleware, options?: MiddlewareOptions): () => void
+	enableHistory(options?: HistoryOptions): void
+	currentVersion(): number
+	undo(): boolean
+	redo(): boolean
+	at(version: number): this
+	revert(path: string, version: number): void
+	subscribe(path: string, listener: StoreListener): () => void
+	unsubscribe(path: string, listener: StoreListener): void
 }
 
-const restrictedMap: Map<unknown, Permission> = new Map()
-const readPermissions: Array<Permission> = ['r', 'rw']
-const writePermissions: Array<Permission> = ['w', 'rw']
+const accessGrants: Record<Access, Permission[]> = {
+	read: ['r', 'rw', 'ra', 'm'],
+	write: ['w', 'rw'],
+	traverse: ['t', 'r', 'rw', 'ra'],
+	append: ['a', 'ra', 'w', 'rw'],
+}
+
+const grants = (permission: Permission, access: Access) => accessGrants[access].includes(permission)
+
+const operationOf = (access: Access): StoreOperation =>
+	access === 'read' || access === 'traverse' ? 'read' : 'write'
+
+function withParentPath<TResult>(parentPath: string, operation: () => TResult): TResult {
+	try {
+		return operation()
+	} catch (error) {
+		if (error instanceof StoreError) throw error.withParent(parentPath)
+		throw error
+	}
+}
 
-const buildKey = (store: string, key: string | symbol) => `${store}:${key.toString()}`
+async function withParentPathAsync<TResult>(
+	parentPath: string,
+	operation: () => Promise<TResult>
+): Promise<TResult> {
+	try {
+		return await operation()
+	} catch (error) {
+		if (error instanceof StoreError) throw error.withParent(parentPath)
+		throw error
+	}
+}
 
-function findPermission(instance: Store, key: string): Permission | undefined {
-	let currentClass = instance.constructor
+const isJSONContainer = (value: unknown): value is JSONArray | JSONObject =>
+	Array.isArray(value) || value?.constructor === Object
 
-	while (currentClass?.name && currentClass.name !== 'Object') {
-		const permission = restrictedMap.get(buildKey(currentClass.name, key))
-		if (permission !== undefined) return permission
+function childOf(container: JSONArray | JSONObject, key: string): JSONValue | undefined {
+	if (Array.isArray(container)) return isIndex(key) ? container[Number(key)] : undefined
+	return Object.hasOwn(container, key) ? container[key] : undefined
+}
 
-		currentClass = Object.getPrototypeOf(currentClass)
-		if (currentClass?.name === 'Store') {
-			return restrictedMap.get(buildKey('Store', key))
+function valueAt(container: JSONValue | undefined, keys: string[]): JSONValue | undefined {
+	let value = container
+	for (const key of keys) {
+		if (!isJSONContainer(value)) return undefined
+		value = childOf(value, key)
+	}
+	return value
+}
+
+// The keys leading to each value held below the given one, without resolving lazy values
+function keysBelow(value: StoreValue, seen: Set<Store> = new Set()): string[][] {
+	let children: Array<[string, StoreValue]> = []
+	if (value instanceof Store && !seen.has(value)) {
+		seen.add(value)
+		children = storeKeys(value).map((key) => [key, rawValue(value, key)])
+	} else if (isJSONContainer(value)) {
+		children = Object.entries(value)
+	}
+	return children
+		.filter(([, child]) => child !== undefined)
+		.flatMap(([key, child]) => [[key], ...keysBelow(child, seen).map((keys) => [key, ...keys])])
+}
+
+// Follows keys through raw values, without resolving lazy values or checking permissions
+export function rawValueAt(store: Store, keys: string[]): StoreValue {
+	let value: StoreValue = store
+	for (const key of keys) {
+		if (value instanceof Store) value = rawValue(value, key)
+		else if (isJSONContainer(value)) value = childOf(value, key)
+		else return undefined
+	}
+	return value
+}
+
+// Returns a copy of the container with the value set at the given keys, creating objects on the way
+function withChild(
+	container: JSONValue | undefined,
+	keys: string[],
+	value: JSONValue,
+	details: Omit<StoreErrorDetails, 'segment'>
+): JSONValue {
+	const [key, ...rest] = keys
+	if (key === undefined) return value
+
+	if (Array.isArray(container)) {
+		if (!isIndex(key) || Number(key) > container.length) {
+			throw new InvalidPathError(
+				{ ...details, segment: key },
+				`"${key}" is not an index of the array`
+			)
 		}
+		const copy = [...container]
+		copy[Number(key)] = withChild(copy[Number(key)], rest, value, details)
+		return copy
+	}
+	if (container === undefined || isJSONContainer(container)) {
+		const copy: JSONObject = { ...container }
+		copy[key] = withChild(copy[key], rest, value, details)
+		return copy
 	}
-	return undefined
+	throw new NotTraversableError({ ...details, segment: key })
 }
 
+// Returns a copy of the container without the value at the given keys, array items being spliced out
+function withoutChild(container: JSONArray | JSONObject, keys: string[]): JSONValue {
+	const [key, ...rest] = keys
+	if (key === undefined) return container
+	const child = childOf(container, key)
+
+	if (Array.isArray(container)) {
+		const index = Number(key)
+		if (rest.length === 0) return [...container.slice(0, index), ...container.slice(index + 1)]
+		const copy = [...container]
+		copy[index] = isJSONContainer(child) ? withoutChild(child, rest) : (child as JSONValue)
+		return copy
+	}
+	const { [key]: _, ...copy } = container
+	if (rest.length === 0) return copy
+	return {
+		...container,
+		[key]: isJSONContainer(child) ? withoutChild(child, rest) : (child as JSONValue),
+	}
+}
+
+function collectMatches(
+	value: StoreResult,
+	segments: PathSegment[],
+	prefix: string[],
+	matches: Map<string, StoreResult>
+): void {
+	const [segment, ...rest] = segments
+	if (segment === undefined) {
+		if (value !== undefined) matches.set(formatPath(prefix), value)
+		return
+	}
+
+	if (value instanceof Store) {
+		const parentPath = formatPath(prefix)
+		const nested = withParentPath(parentPath, () => value.readAll(formatPath(segments)))
+		for (const [path, match] of nested) matches.set(`${parentPath}:${path}`, match)
+	} else if (isJSONContainer(value)) {
+		const keys = segment === WILDCARD ? Object.keys(value) : [segment as string]
+		for (const key of keys) collectMatches(childOf(value, key), rest, [...prefix, key], matches)
+	}
+}
+
+// Visits the lazy values of a subtree without resolving them
+function forEachLazy(
+	value: StoreValue,
+	visit: (cached: Lazy<unknown>) => void,
+	seen: Set<Store> = new Set()
+): void {
+	if (isLazy(value)) visit(value)
+	if (!(value instanceof Store) || seen.has(value)) return
+	seen.add(value)
+	for (const key of storeKeys(value)) forEachLazy(rawValue(value, key), visit, seen)
+}
+
+// With a restrictPath, the permission applies to every path of the class matching that pattern
 export function Restrict(
-	permission: Permission = 'none',
-	restrictPath?: unknown
+	permission: PermissionRule = 'none',
+	restrictPath?: string
 ): PropertyDecorator {
-	if (restrictPath) restrictedMap.set(restrictPath, permission)
-
-	return (target: unknown, propertyKey: string | symbol) => {
-		if (!target?.constructor.name) return
-		const key = buildKey(target.constructor.name, propertyKey)
-		restrictedMap.set(key, permission)
+	return (target: object, propertyKey: string | symbol) => {
+		if (restrictPath) {
+			definePathRule(target.constructor as StoreClass, restrictPath, permission)
+			return
+		}
+		registerFieldRule(target.constructor, propertyKey.toString(), permission)
 	}
 }
 
-export class Store implements IStore {
+// biome-ignore lint/suspicious/noExplicitAny: the default shape keeps every store assignable to Store
+export class Store<TShape extends object = any> implements IStore {
+	declare readonly [storeShape]: TShape
 	defaultPolicy: Permission = 'rw'
+	nestedWritePolicy: NestedWritePolicy = 'read'
 	data = new Map()
 
-	allowedToRead(key: string): boolean {
-		const specificPermission = findPermission(this, key)
-		if (specificPermission !== undefined) {
-			return readPermissions.includes(specificPermission)
+	permissionFor(key: string): Permission {
+		const permission = this.declaredPermission(key)
+		// Computed keys are read-only whatever their rule allows
+		if (!isComputedKey(this, key) || permission === 'm') return permission
+		return grants(permission, 'read') ? 'r' : 'none'
+	}
+
+	private declaredPermission(key: string): Permission {
+		const pathPermission = pathRulePermission(this, [key])
+		if (pathPermission !== undefined) return pathPermission
+
+		const rule = findFieldRule(this, key)
+		if (rule === undefined) return this.defaultPolicy
+		return evaluateRule(rule, currentActor(), key, rawValue(this, key))
+	}
+
+	as(actor: Actor): this {
+		return actorView(this, actor)
+	}
+
+	allowedToRead(path: string): boolean {
+		return this.isAllowed(this.parse(path, 'read'), 'read')
+	}
+
+	// Masked paths can be read, but only through their mask
+	isMasked(path: string): boolean {
+		const [key, ...rest] = this.parse(path, 'read') as string[]
+		if (key === undefined) return false
+		if (this.maskedBy([key, ...rest])) return true
+		if (rest.length === 0 || !this.hasAccess(key, 'traverse')) return false
+
+		const value = this.resolveValue(key)
+		return value instanceof Store && value.isMasked(formatPath(rest))
+	}
+
+	allowedToWrite(path: string): boolean {
+		return this.isAllowed(this.parse(path, 'write'), 'write')
+	}
+
+	private parse(path: string, operation: StoreOperation, allowWildcards = false): PathSegment[] {
+		const segments = parsePath(path, { operation, storeName: this.constructor.name })
+		const details = { path, operation, storeName: this.constructor.name }
+		if (segments.includes(GLOBSTAR)) {
+			throw new InvalidPathError(
+				{ ...details, segment: '**' },
+				'"**" is only supported by permission patterns'
+			)
+		}
+		if (!allowWildcards && segments.includes(WILDCARD)) {
+			throw new InvalidPathError(
+				{ ...details, segment: '*' },
+				'wildcards are only supported by readAll'
+			)
 		}
-		return readPermissions.includes(this.defaultPolicy)
+		return segments
 	}
 
-	allowedToWrite(key: string): boolean {
-		const permission = findPermission(this, key)
-		if (permission !== undefined) {
-			return writePermissions.includes(permission)
+	private hasAccess(key: string, access: Access): boolean {
+		if (!checksPermissions()) return true
+		const permission = this.permissionFor(key)
+		if (access === 'write' && !grants(permission, 'write')) {
+			return grants(permission, 'append') && rawValue(this, key) === undefined
 		}
-		return writePermissions.includes(this.defaultPolicy)
+		return grants(permission, access)
 	}
 
-	read(path: string): StoreResult {
-		const [firstKey, ...childKeys] = path.split(':')
-		if (!firstKey || !this.allowedToRead(firstKey)) throw new Error()
+	// Path rules of this store also guard the deeper keys of nested stores and values. Writing or
+	// deleting a key replaces everything below it, so the rules of those keys apply as well.
+	private deniedByPathRules(keys: string[], operation: StoreOperation) {
+		if (!checksPermissions() || !hasPathRules(this)) return undefined
+		const targets = Array.from({ length: keys.length - 1 }, (_, index) => keys.slice(0, index + 2))
+		if (operation === 'write') {
+			for (const childKeys of keysBelow(rawValueAt(this, keys)))
+				targets.push([...keys, ...childKeys])
+		}
+
+		for (const target of targets) {
+			const required = target.length < keys.length ? this.passThroughAccess(operation) : operation
+			const permission = pathRulePermission(this, target)
+			if (permission === undefined || grants(permission, required)) continue
+			if (required === 'write' && grants(permission, 'append')) {
+				if (rawValueAt(this, target) === undefined) continue
+			}
+			return {
+				segment: target[target.length - 1] as string,
+				operation: operationOf(required),
+				permission,
+			}
+		}
+		return undefined
+	}
+
+	private maskedBy(keys: string[]): boolean {
+		const [key, ...rest] = keys
+		if (key === undefined) return false
+		const permission = rest.length === 0 ? this.permissionFor(key) : pathRulePermission(this, keys)
+		return permission === 'm'
+	}
+
+	// Masked values are only handed out through the mask matching their path
+	private reveal(keys: string[], value: StoreResult): StoreResult {
+		if (value === undefined || !this.maskedBy(keys)) return value
+		return maskValue(this, keys, value)
+	}
+
+	private visibleChange(change: StoreChange): StoreChange | undefined {
+		if (!this.allowedToRead(change.path)) return undefined
+		const keys = this.parse(change.path, 'read') as string[]
+		return {
+			...change,
+			oldValue: this.visibleValue(keys, change.oldValue),
+			newValue: this.visibleValue(keys, change.newValue),
+		}
+	}
 
-		let value = this.data.get(firstKey)
+	// Follows the way a read of the keys would go: values are opened, masked by the nested store
+	// holding them and then by this one, and keys that can't be read are left out of containers
+	private visibleValue(keys: string[], value: StoreValue): StoreValue {
+		if (typeof value === 'function' || value instanceof Store) return value
+		let visible: StoreResult = isSealed(value) ? open(value) : value
+		if (isJSONContainer(visible)) {
+			const items = Object.entries(visible).map(([key, item]): [string, JSONValue | undefined] => {
+				const itemKeys = [...keys, key]
+				if (!this.allowedToRead(formatPath(itemKeys))) return [key, undefined]
+				return [key, this.visibleValue(itemKeys, item) as JSONValue]
+			})
+			// Array items keep their index, those that can't be read are left empty
+			visible = Array.isArray(visible)
+				? items.map(([, item]) => item ?? null)
+				: Object.fromEntries(
+						items.filter((item): item is [string, JSONValue] => item[1] !== undefined)
+					)
+		}
 
-		if (!value && firstKey in this) {
-			value = this[firstKey as keyof this]
-			this.data.set(firstKey, value)
+		const [firstKey, ...childKeys] = keys
+		const holder = firstKey === undefined ? undefined : rawValue(this, firstKey)
+		if (holder instanceof Store && childKeys.length > 0) {
+			visible = holder.visibleValue(childKeys, visible) as StoreResult
 		}
+		return this.reveal(keys, visible)
+	}
+
+	// Reads pass through keys they can traverse, writes need what the nested-write policy asks for
+	private passThroughAccess(operation: StoreOperation): Access {
+		return operation === 'read' ? 'traverse' : this.nestedWritePolicy
+	}
 
-		if (typeof value === 'function') {
-			value = value()
+	private assertPathRules(path: string, keys: string[], operation: StoreOperation): void {
+		const denied = this.deniedByPathRules(keys, operation)
+		if (denied) {
+			throw new PermissionDeniedError({ ...denied, path, storeName: this.constructor.name })
 		}
+	}
+
+	private isAllowed(segments: PathSegment[], operation: StoreOperation): boolean {
+		const [key, ...rest] = segments as string[]
+		if (key === undefined) return false
+		if (this.deniedByPathRules(segments as string[], operation)) return false
+		if (rest.length === 0) return this.hasAccess(key, operation)
+		if (!this.hasAccess(key, this.passThroughAccess(operation))) return false
 
-		if (value instanceof Store && childKeys.length > 0) {
-			return value.read(childKeys.join(':'))
+		// Asynchronous values can't be looked into without waiting for them
+		const value = this.resolveValue(key)
+		if (value instanceof Promise) return false
+		if (value instanceof Store) return value.isAllowed(rest, operation)
+		if (isJSONContainer(value)) return operation === 'read' || this.hasAccess(key, 'write')
+		return true
+	}
+
+	private assertAccess(path: string, key: string, access: Access): void {
+		if (!this.hasAccess(key, access)) {
+			throw new PermissionDeniedError({
+				path,
+				segment: key,
+				operation: operationOf(access),
+				permission: this.permissionFor(key),
+				storeName: this.constructor.name,
+			})
 		}
+	}
+
+	// Class fields are read in place until written, so later changes to them are seen
+	private resolveValue(
+		key: string,
+		path = escapeKey(key),
+		operation: StoreOperation = 'read'
+	): LazyResult {
+		const value = rawValue(this, key)
+		if (value instanceof Store && !this.data.has(key)) attachChild(this, key, value)
+		if (isSealed(value)) return this.opened(path, key, value, operation)
+		return typeof value === 'function' ? value() : value
+	}
 
+	// Asynchronous lazy values can only be followed by readAsync
+	private resolveSync(path: string, key: string, operation: StoreOperation): StoreResult {
+		const value = this.resolveValue(key, path, operation)
+		if (value instanceof Promise) {
+			throw new AsyncValueError({ path, segment: key, operation, storeName: this.constructor.name })
+		}
 		return value
 	}
 
-	write(path: string, value: StoreValue): StoreValue {
-		const [firstKey, ...childKeys] = path.split(':')
-
-		if (childKeys.length > 0) {
-			if (!firstKey || !this.allowedToRead(firstKey)) throw new Error()
-			let nestedStore = this.read(firstKey)
-			if (!(nestedStore instanceof Store)) {
-				nestedStore = new Store()
-				this.data.set(firstKey, nestedStore)
+	// Sealed values are only opened once the operation has been allowed
+	private opened(
+		path: string,
+		key: string,
+		sealed: SealedValue,
+		operation: StoreOperation = 'read'
+	): JSONValue {
+		const opened = open(sealed)
+		if (opened === undefined) {
+			throw new DecryptionError({ path, segment: key, operation, storeName: this.constructor.name })
+		}
+		return opened
+	}
+
+	private sealedFor(key: string, value: StoreValue): StoreValue {
+		return encryptsKey(this, key) ? seal(value) : value
+	}
+
+	private notTraversable(path: string, parentKeys: string[]): NotTraversableError {
+		return new NotTraversableError({
+			path,
+			segment: parentKeys[parentKeys.length - 1] as string,
+			operation: 'read',
+			storeName: this.constructor.name,
+		})
+	}
+
+	read<TStore, TPath extends string>(
+		this: TStore,
+		path: CheckedPath<TStore, TPath>
+	): PathValue<TStore, TPath>
+	read<TPath extends string>(path: RuntimePath<TPath>): StoreResult
+	read(path: string): StoreResult {
+		return audited(this, 'read', path, () => this.readPath(path))
+	}
+
+	private readPath(path: string): StoreResult {
+		ensureLoaded(this)
+		const [firstKey, ...childKeys] = this.parse(path, 'read') as string[]
+		if (firstKey === undefined) return undefined
+		this.assertAccess(path, firstKey, childKeys.length > 0 ? 'traverse' : 'read')
+		this.assertPathRules(path, [firstKey, ...childKeys], 'read')
+		const keys = [firstKey, ...childKeys]
+		const readBelow = (store: Store, middlewareRan: boolean) => {
+			const prefix = escapeKey(firstKey)
+			const parents = [...currentDelegations(), { store: this, prefix, middlewareRan }]
+			const result = withParentPath(prefix, () =>
+				delegated(parents, () => store.read(formatPath(childKeys)))
+			)
+			return this.reveal(keys, result)
+		}
+
+		// Stores held by the key run their own middleware, along with the nested middleware of
+		// their parents. Other values are resolved inside the middleware, so that a veto comes
+		// before any lazy value is computed.
+		if (childKeys.length > 0 && rawValue(this, firstKey) instanceof Store) {
+			return readBelow(this.resolveSync(path, firstKey, 'read') as Store, false)
+		}
+		return runMiddleware(this, 'read', path, undefined, () => {
+			let value = this.resolveSync(path, firstKey, 'read')
+			if (childKeys.length > 0 && value instanceof Store) return readBelow(value, true)
+
+			const parentKeys = [firstKey]
+			for (const key of childKeys) {
+				if (value === undefined) break
+				if (!isJSONContainer(value)) throw this.notTraversable(path, parentKeys)
+				value = childOf(value, key)
+				parentKeys.push(key)
 			}
-			return nestedStore.write(childKeys.join(':'), value)
+			return this.reveal(keys, value)
+		}) as StoreResult
+	}
+
+	readAsync<TStore, TPath extends string>(
+		this: TStore,
+		path: CheckedPath<TStore, TPath>
+	): Promise<Awaited<PathValue<TStore, TPath>>>
+	readAsync<TPath extends string>(path: RuntimePath<TPath>): Promise<StoreResult>
+	readAsync(path: string): Promise<StoreResult> {
+		return audited(this, 'read', path, () => this.readPathAsync(path))
+	}
+
+	// The actor and the parents delegating to the store are captured up front, since they are no
+	// longer active once a value has been awaited
+	private async readPathAsync(path: string): Promise<StoreResult> {
+		const actor = currentActor()
+		const delegations = currentDelegations()
+		ensureLoaded(this)
+		const [firstKey, ...childKeys] = this.parse(path, 'read') as string[]
+		if (firstKey === undefined) return undefined
+		this.assertAccess(path, firstKey, childKeys.length > 0 ? 'traverse' : 'read')
+		this.assertPathRules(path, [firstKey, ...childKeys], 'read')
+
+		let value = await this.resolveValue(firstKey, path)
+		const parentKeys = [firstKey]
+
+		for (const [index, key] of childKeys.entries()) {
+			if (value instanceof Store) {
+				const store = value
+				const prefix = formatPath(parentKeys)
+				const childPath = formatPath(childKeys.slice(index))
+				const parents = [...delegations, { store: this, prefix }]
+				const result = await withParentPathAsync(prefix, () =>
+					delegated(parents, () => runAs(actor, () => store.readPathAsync(childPath)))
+				)
+				return runAs(actor, () => this.reveal([firstKey, ...childKeys], result))
+			}
+			if (value === undefined) break
+			if (!isJSONContainer(value)) throw this.notTraversable(path, parentKeys)
+			value = childOf(value, key)
+			parentKeys.push(key)
 		}
 
-		if (!firstKey || !this.allowedToWrite(firstKey)) throw new Error()
+		const result = runAs(actor, () => this.reveal([firstKey, ...childKeys], value))
+		return runMiddleware(this, 'read', path, undefined, () => result, delegations) as StoreResult
+	}
 
-		if (value?.constructor === Object) {
-			const nestedStore = new Store()
-			nestedStore.writeEntries(value as JSONObject)
-			value = nestedStore
+	readAll(pattern: string): Map<string, StoreResult> {
+		ensureLoaded(this)
+		const [segment, ...rest] = this.parse(pattern, 'read', true)
+		const matches = new Map<string, StoreResult>()
+		if (segment === undefined) return matches
+
+		const keys =
+			segment === WILDCARD
+				? storeKeys(this).filter((key) => this.hasAccess(key, 'read'))
+				: [segment as string]
+		for (const key of keys) {
+			collectMatches((this as Store).read(escapeKey(key)), rest, [key], matches)
+		}
+		for (const path of matches.keys()) {
+			if (this.deniedByPathRules(this.parse(path, 'read') as string[], 'read')) {
+				matches.delete(path)
+			} else if (this.isMasked(path)) {
+				matches.set(path, (this as Store).read(path))
+			}
 		}
+		return matches
+	}
+
+	private setValue(key: string, value: StoreValue): StoreValue {
+		const hadValue = this.data.has(key)
+		const oldValue = rawValue(this, key)
+		if (oldValue instanceof Store) detachChild(this, key, oldValue)
+		if (value instanceof Store) attachChild(this, key, value)
+		this.data.set(key, value)
+
+		recordUndo(() => {
+			if (value instanceof Store) detachChild(this, key, value)
+			if (oldValue instanceof Store) attachChild(this, key, oldValue)
+			if (hadValue) this.data.set(key, oldValue)
+			else this.data.delete(key)
+		})
+		return oldValue
+	}
+
+	write<TStore, TPath extends string>(
+		this: TStore,
+		path: CheckedPath<TStore, TPath>,
+		value: PathInput<TStore, TPath>
+	): PathInput<TStore, TPath>
+	write<TPath extends string>(path: RuntimePath<TPath>, value: StoreValue): StoreValue
+	write(path: string, value: StoreValue): StoreValue {
+		return audited(this, 'write', path, () => this.writePath(path, value))
+	}
+
+	private writePath(path: string, value: StoreValue): StoreValue {
+		ensureLoaded(this)
+		const [firstKey, ...childKeys] = this.parse(path, 'write') as string[]
+		if (firstKey === undefined) return undefined
+
+		return runTransaction(() => {
+			this.assertPathRules(path, [firstKey, ...childKeys], 'write')
+			if (childKeys.length > 0) {
+				this.assertAccess(path, firstKey, this.nestedWritePolicy)
+				const current = this.resolveSync(path, firstKey, 'write')
+
+				if (isJSONContainer(current)) {
+					this.assertAccess(path, firstKey, 'write')
+					return runMiddleware(this, 'write', path, value, (input) =>
+						this.writeInto(current, path, [firstKey, ...childKeys], input as StoreValue)
+					) as StoreValue
+				}
+
+				let nestedStore = current
+				if (!(nestedStore instanceof Store)) {
+					nestedStore = new Store()
+					validateEntry(this, firstKey, nestedStore, path)
+					assignFieldSchema(nestedStore, fieldSchemaOf(this, firstKey))
+					this.setValue(firstKey, nestedStore)
+				}
+				const store = nestedStore
+				const prefix = escapeKey(firstKey)
+				return withParentPath(prefix, () =>
+					delegateTo(this, prefix, () => store.write(formatPath(childKeys), value))
+				)
+			}
+
+			this.assertAccess(path, firstKey, 'write')
+			return runMiddleware(this, 'write', path, value, (input) =>
+				this.writeKey(path, firstKey, input as StoreValue)
+			) as StoreValue
+		})
+	}
 
-		this.data.set(firstKey, value)
+	private writeInto(
+		container: JSONArray | JSONObject,
+		path: string,
+		keys: string[],
+		value: StoreValue
+	): StoreValue {
+		const [firstKey, ...childKeys] = keys as [string, ...string[]]
+		const details = { path, operation: 'write' as const, storeName: this.constructor.name }
+		assertWithinLimits(this, path, [{ keys, value }])
+		const oldValue = valueAt(container, childKeys)
+		const updated = withChild(container, childKeys, value as JSONValue, details)
+		this.setValue(
+			firstKey,
+			this.sealedFor(firstKey, validateEntry(this, firstKey, updated, path).value)
+		)
+		deferUntilCommit(() =>
+			notifyChange(this, { path: formatPath(keys), oldValue, newValue: value, store: this })
+		)
 		return value
 	}
 
+	// Plain objects become nested stores, written as if reached through this store, unless the key
+	// is encrypted and the object is sealed as a whole
+	private writeKey(path: string, key: string, value: StoreValue): StoreValue {
+		const entry = validateEntry(this, key, value, path)
+		if (entry.skip) return undefined
+		let stored = entry.value
+		assertWithinLimits(this, path, [{ keys: [key], value: stored }])
+
+		const encrypted = encryptsKey(this, key)
+		if (!encrypted && stored?.constructor === Object) {
+			const nestedStore = new Store()
+			const entries = stored as JSONObject
+			assignFieldSchema(nestedStore, fieldSchemaOf(this, key))
+			delegateTo(this, escapeKey(key), () => nestedStore.writeEntries(entries))
+			stored = nestedStore
+		}
+
+		const newValue = encrypted ? seal(stored) : stored
+		const oldValue = this.setValue(key, newValue)
+		deferUntilCommit(() =>
+			notifyChange(this, { path: escapeKey(key), oldValue, newValue, store: this })
+		)
+		return stored
+	}
+
 	writeEntries(entries: JSONObject): void {
-		for (const entry of Object.entries(entries)) {
-			const [key, value] = entry
-			let store: Store = this
-			if (typeof value === 'object' && !Array.isArray(value) && value !== null) {
-				store = new Store()
-				this.write(key, store)
-				store.writeEntries(value)
-			} else {
-				store.write(key, value)
+		audited(this, 'writeEntries', '', () =>
+			runMiddleware(this, 'writeEntries', '', entries, (input) => {
+				this.writeObject(input as JSONObject)
+				return input
+			})
+		)
+	}
+
+	// Each key is validated once its write middleware ran, and the issues of every key are reported
+	// together after rolling back the keys that were written
+	private writeObject(entries: JSONObject): void {
+		const issues: ValidationIssue[] = []
+		runTransaction(() => {
+			for (const [key, value] of Object.entries(entries)) {
+				try {
+					;(this as Store).write(escapeKey(key), value)
+				} catch (error) {
+					if (!(error instanceof ValidationError)) throw error
+					issues.push(...error.issues)
+				}
+			}
+			if (issues.length > 0) {
+				throw new ValidationError(
+					{ path: '', segment: '', operation: 'write', storeName: this.constructor.name },
+					issues
+				)
+			}
+		})
+	}
+
+	delete(path: string): boolean {
+		return audited(this, 'delete', path, () => this.deletePath(path))
+	}
+
+	private deletePath(path: string): boolean {
+		ensureLoaded(this)
+		const [firstKey, ...childKeys] = this.parse(path, 'write') as string[]
+		if (firstKey === undefined) return false
+
+		return runTransaction(() => {
+			this.assertPathRules(path, [firstKey, ...childKeys], 'write')
+			if (childKeys.length === 0) {
+				this.assertAccess(path, firstKey, 'write')
+				return this.removeKey(firstKey)
 			}
+
+			this.assertAccess(path, firstKey, this.nestedWritePolicy)
+			const current = this.resolveSync(path, firstKey, 'write')
+			if (current instanceof Store) {
+				return withParentPath(escapeKey(firstKey), () => current.delete(formatPath(childKeys)))
+			}
+			const oldValue = isJSONContainer(current) ? valueAt(current, childKeys) : undefined
+			if (!isJSONContainer(current) || oldValue === undefined) return false
+
+			this.assertAccess(path, firstKey, 'write')
+			this.setValue(firstKey, this.sealedFor(firstKey, withoutChild(current, childKeys)))
+			deferUntilCommit(() =>
+				notifyChange(this, {
+					path: formatPath([firstKey, ...childKeys]),
+					oldValue,
+					newValue: undefined,
+					store: this,
+				})
+			)
+			return true
+		})
+	}
+
+	// A deleted class field loses its property too, so its initial value can't come back
+	private removeKey(key: string): boolean {
+		const oldValue = rawValue(this, key)
+		if (oldValue === undefined) return false
+
+		const hadData = this.data.has(key)
+		const hadField = Object.hasOwn(this, key)
+		const fieldValue: unknown = Reflect.get(this, key)
+		if (oldValue instanceof Store) detachChild(this, key, oldValue)
+		this.data.delete(key)
+		if (hadField) Reflect.deleteProperty(this, key)
+
+		recordUndo(() => {
+			if (oldValue instanceof Store) attachChild(this, key, oldValue)
+			if (hadData) this.data.set(key, oldValue)
+			if (hadField) Reflect.set(this, key, fieldValue)
+		})
+		deferUntilCommit(() =>
+			notifyChange(this, { path: escapeKey(key), oldValue, newValue: undefined, store: this })
+		)
+		return true
+	}
+
+	// Checks that a value is set without resolving it, keys holding undefined counting as unset
+	has(path: string): boolean {
+		ensureLoaded(this)
+		const segments = this.parse(path, 'read') as string[]
+		const [firstKey, ...childKeys] = segments
+		if (firstKey === undefined) return false
+		this.assertAccess(path, firstKey, childKeys.length > 0 ? 'traverse' : 'read')
+		this.assertPathRules(path, segments, 'read')
+		if (childKeys.length === 0) return rawValue(this, firstKey) !== undefined
+
+		const value = this.resolveSync(path, firstKey, 'read')
+		if (value instanceof Store) {
+			return withParentPath(escapeKey(firstKey), () => value.has(formatPath(childKeys)))
+		}
+		return isJSONContainer(value) && valueAt(value, childKeys) !== undefined
+	}
+
+	keys(path?: string): string[] {
+		ensureLoaded(this)
+		if (path === undefined) {
+			return storeKeys(this).filter(
+				(key) => rawValue(this, key) !== undefined && this.hasAccess(key, 'read')
+			)
+		}
+
+		const segments = this.parse(path, 'read') as string[]
+		const [firstKey, ...childKeys] = segments
+		if (firstKey === undefined) return []
+		this.assertAccess(path, firstKey, childKeys.length > 0 ? 'traverse' : 'read')
+		this.assertPathRules(path, segments, 'read')
+
+		const value = this.resolveSync(path, firstKey, 'read')
+		let keys: string[] = []
+		if (value instanceof Store) {
+			const childPath = childKeys.length > 0 ? formatPath(childKeys) : undefined
+			keys = withParentPath(escapeKey(firstKey), () => value.keys(childPath))
+		} else if (isJSONContainer(value)) {
+			const container = valueAt(value, childKeys)
+			if (isJSONContainer(container)) keys = Object.keys(container)
+		}
+		// Path rules of this store may hide keys of the nested store or value
+		return keys.filter((key) => !this.deniedByPathRules([...segments, key], 'read'))
+	}
+
+	// Every key is deleted through this store, so that its path rules apply to nested keys too
+	clear(path?: string): void {
+		audited(this, 'clear', path ?? '', () =>
+			runTransaction(() => {
+				const target = path === undefined ? this : (this as Store).read(path)
+				const prefix = path === undefined ? '' : `${path}:`
+				if (target instanceof Store) {
+					for (const key of storeKeys(target)) {
+						if (isComputedKey(target, key) || rawValue(target, key) === undefined) continue
+						this.delete(`${prefix}${escapeKey(key)}`)
+					}
+				} else if (isJSONContainer(target)) {
+					;(this as Store).write(path as string, Array.isArray(target) ? [] : {})
+				}
+			})
+		)
+	}
+
+	transaction<TResult>(operation: (store: this) => TResult): TResult {
+		return runTransaction(() => operation(this))
+	}
+
+	asObject<TStore extends Store>(this: TStore): ObjectView<TStore> {
+		return objectView(this) as ObjectView<TStore>
+	}
+
+	scope(prefix: string, permission: ScopePermission = 'rw'): StoreScope {
+		return new StoreScope(this, this.parse(prefix, 'read'), permission)
+	}
+
+	diff(other: Store): PatchOperation[] {
+		return diffStores(this, other)
+	}
+
+	applyPatch(operations: PatchOperation[]): void {
+		applyPatch(this, operations)
+	}
+
+	// Invalidating reads and changes no visible value, so it needs no permission
+	invalidate(path?: string): void {
+		let value: StoreValue = this
+		for (const key of path === undefined ? [] : (this.parse(path, 'read') as string[])) {
+			// A lazy value holds everything below it, so it is invalidated as a whole
+			if (isLazy(value)) break
+			if (value instanceof Store) value = rawValue(value, key)
+			else if (isJSONContainer(value)) value = childOf(value, key)
+			else return
 		}
+		forEachLazy(value, (cached) => cached.invalidate())
+	}
+
+	// How much of each limit the store uses, whether or not the limit is set
+	usage(): StoreUsage {
+		ensureLoaded(this)
+		return usageOf(this)
+	}
+
+	cacheStats(): CacheStats {
+		const totals = { hits: 0, misses: 0 }
+		forEachLazy(this, (cached) => {
+			const { hits, misses } = cached.stats()
+			totals.hits += hits
+			totals.misses += misses
+		})
+		return totals
 	}
 
 	entries(): JSONObject {
@@ -137,11 +1009,123 @@ export class Store implements IStore {
 
 		for (const entry of Object.entries(this)) {
 			const [key, value] = entry
-			if (this.allowedToRead(key)) {
-				values[key] = value
+			if (this.hasAccess(key, 'read')) {
+				const opened = isSealed(value) ? this.opened(escapeKey(key), key, value) : value
+				values[key] = this.reveal([key], opened) as JSONValue
 			}
 		}
 
 		return values
 	}
+
+	// Values sealed under an older key are sealed again under the current one, so that the older
+	// key can be retired. Returns the number of values sealed again.
+	reencrypt(): number {
+		ensureLoaded(this)
+		return runTransaction(() => this.reencryptIn(new Set()))
+	}
+
+	private reencryptIn(seen: Set<Store>): number {
+		if (seen.has(this)) return 0
+		seen.add(this)
+		let count = 0
+		for (const key of storeKeys(this)) {
+			const value = rawValue(this, key)
+			if (value instanceof Store) count += value.reencryptIn(seen)
+			if (!isSealed(value) || value.keyId === currentKeyProvider().currentKeyId()) continue
+
+			const resealed = seal(this.opened(escapeKey(key), key, value))
+			this.setValue(key, resealed)
+			deferUntilCommit(() =>
+				notifyChange(this, {
+					path: escapeKey(key),
+					oldValue: value,
+					newValue: resealed,
+					store: this,
+				})
+			)
+			count++
+		}
+		return count
+	}
+
+	snapshot(options?: SnapshotOptions): JSONObject {
+		ensureLoaded(this)
+		return createSnapshot(this, options)
+	}
+
+	toJSON(): JSONObject {
+		return this.snapshot()
+	}
+
+	hydrate(json: JSONObject): void {
+		hydrateStore(this, json)
+	}
+
+	attachStorage(adapter: StorageAdapter, options?: StorageOptions): StorageAttachment {
+		return attachStorage(this, adapter, options)
+	}
+
+	attachAudit(sink: AuditSink): AuditAttachment {
+		return attachAudit(this, sink)
+	}
+
+	use(middleware: Middleware, options?: MiddlewareOptions): () => void {
+		return useMiddleware(this, middleware, options)
+	}
+
+	enableHistory(options?: HistoryOptions): void {
+		enableHistory(this, options)
+	}
+
+	currentVersion(): number {
+		return currentVersion(this)
+	}
+
+	undo(): boolean {
+		return undo(this)
+	}
+
+	redo(): boolean {
+		return redo(this)
+	}
+
+	at(version: number): this {
+		return storeAt(this, version)
+	}
+
+	revert(path: string, version: number): void {
+		revert(this, path, version)
+	}
+
+	static describePermissions(target: Store | StoreClass, actor?: Actor): PermissionDescription {
+		return describePermissions(target, actor)
+	}
+
+	static fromJSON<TStore extends Store>(this: new () => TStore, json: JSONObject): TStore {
+		// biome-ignore lint/complexity/noThisInStatic: builds the subclass fromJSON is called on
+		const store = new this()
+		store.hydrate(json)
+		return store
+	}
+
+	// Listeners see changes as the subscribing actor would read them, unreadable ones not at all
+	// An empty path listens to every change of the store
+	subscribe(path: string, listener: StoreListener): () => void {
+		const segments = path === '' ? [] : (this.parse(path, 'read') as string[])
+		const [firstKey, ...childKeys] = segments
+		if (firstKey !== undefined) {
+			this.assertAccess(path, firstKey, childKeys.length > 0 ? 'traverse' : 'read')
+		}
+		const actor = currentActor()
+		linkFieldStores(this)
+		addListener(this, formatPath(segments), listener, (change) =>
+			runAs(actor, () => this.visibleChange(change))
+		)
+		return () => this.unsubscribe(path, listener)
+	}
+
+	unsubscribe(path: string, listener: StoreListener): void {
+		removeListener(this, path === '' ? '' : formatPath(this.parse(path, 'read')), listener)
+	}
 }
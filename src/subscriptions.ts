@@ -0,0 +1,114 @@
+import { escapeKey } from './path'
+import type { Store, StoreValue } from './store'
+
+export interface StoreChange {
+	path: string
+	oldValue: StoreValue
+	newValue: StoreValue
+	store: Store
+}
+
+export type StoreListener = (change: StoreChange) => void
+
+// Turns a change into what the listener may see of it, or leaves it out
+export type ChangeFilter = (change: StoreChange) => StoreChange | undefined
+
+const listenersMap: WeakMap<Store, Map<string, Map<StoreListener, ChangeFilter>>> = new WeakMap()
+
+const unfiltered: ChangeFilter = (change) => change
+const parentsMap: WeakMap<Store, Map<Store, Set<string>>> = new WeakMap()
+
+// An empty target path listens to the whole store
+export const isAtOrBelow = (path: string, target: string) =>
+	target === '' || path === target || path.startsWith(`${target}:`)
+
+export function addListener(
+	store: Store,
+	path: string,
+	listener: StoreListener,
+	filter: ChangeFilter = unfiltered
+): void {
+	let listeners = listenersMap.get(store)
+	if (!listeners) {
+		listeners = new Map()
+		listenersMap.set(store, listeners)
+	}
+	const pathListeners = listeners.get(path) ?? new Map()
+	pathListeners.set(listener, filter)
+	listeners.set(path, pathListeners)
+}
+
+export function removeListener(store: Store, path: string, listener: StoreListener): void {
+	const listeners = listenersMap.get(store)
+	const pathListeners = listeners?.get(path)
+	if (!pathListeners) return
+
+	pathListeners.delete(listener)
+	if (pathListeners.size === 0) listeners?.delete(path)
+}
+
+export function attachChild(parent: Store, key: string, child: Store): void {
+	let parents = parentsMap.get(child)
+	if (!parents) {
+		parents = new Map()
+		parentsMap.set(child, parents)
+	}
+	const keys = parents.get(parent) ?? new Set()
+	keys.add(key)
+	parents.set(parent, keys)
+}
+
+export function detachChild(parent: Store, key: string, child: Store): void {
+	const parents = parentsMap.get(child)
+	const keys = parents?.get(parent)
+	if (!keys) return
+
+	keys.delete(key)
+	if (keys.size === 0) parents?.delete(parent)
+}
+
+// Walks up through every parent holding the store, tracking the current chain to stop on cycles
+export function notifyChange(
+	store: Store,
+	change: StoreChange,
+	chain: Set<Store> = new Set()
+): void {
+	if (chain.has(store)) return
+	chain.add(store)
+
+	for (const [path, listeners] of listenersMap.get(store) ?? []) {
+		if (!isAtOrBelow(change.path, path)) continue
+		for (const [listener, filter] of [...listeners]) {
+			const visible = filter(change)
+			if (visible) listener(visible)
+		}
+	}
+
+	for (const [parent, keys] of parentsMap.get(store) ?? []) {
+		for (const key of keys) {
+			notifyChange(parent, { ...change, path: `${escapeKey(key)}:${change.path}` }, chain)
+		}
+	}
+
+	chain.delete(store)
+}
+
+// Yields the store and every store holding it, each with the path prefix leading down to the store
+export function* withAncestors(
+	store: Store,
+	prefix = '',
+	chain: Set<Store> = new Set()
+): Generator<[Store, string]> {
+	if (chain.has(store)) return
+	chain.add(store)
+	yield [store, prefix]
+
+	for (const [parent, keys] of parentsMap.get(store) ?? []) {
+		for (const key of keys) {
+			const parentPrefix = prefix ? `${escapeKey(key)}:${prefix}` : escapeKey(key)
+			yield* withAncestors(parent, parentPrefix, chain)
+		}
+	}
+
+	chain.delete(store)
+}
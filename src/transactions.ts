@@ -0,0 +1,65 @@
+interface Transaction {
+	id: number
+	undoLog: Array<() => void>
+	effects: Array<() => void>
+}
+
+let activeTransaction: Transaction | undefined
+let committingId: number | undefined
+let transactionCount = 0
+
+export const inTransaction = () => activeTransaction !== undefined
+
+// The id of the transaction whose effects are running, shared by every change it committed
+export const currentCommit = () => committingId
+
+export function recordUndo(undo: () => void): void {
+	activeTransaction?.undoLog.push(undo)
+}
+
+export function deferUntilCommit(effect: () => void): void {
+	if (activeTransaction) activeTransaction.effects.push(effect)
+	else effect()
+}
+
+// Nested calls join the outer transaction and only roll back their own writes on failure
+export function runTransaction<TResult>(operation: () => TResult): TResult {
+	const outerTransaction = activeTransaction
+	const transaction = outerTransaction ?? { id: ++transactionCount, undoLog: [], effects: [] }
+	const undoSavepoint = transaction.undoLog.length
+	const effectsSavepoint = transaction.effects.length
+
+	activeTransaction = transaction
+	let result: TResult
+	try {
+		result = operation()
+	} catch (error) {
+		const undoLog = transaction.undoLog.splice(undoSavepoint)
+		for (const undo of undoLog.reverse()) undo()
+		transaction.effects.splice(effectsSavepoint)
+		throw error
+	} finally {
+		activeTransaction = outerTransaction
+	}
+	if (!outerTransaction) runEffects(transaction)
+	return result
+}
+
+// Effects run once the writes are committed: a failing one is rethrown without undoing them
+function runEffects(transaction: Transaction): void {
+	const outerCommit = committingId
+	committingId = transaction.id
+	const errors: unknown[] = []
+	try {
+		for (const effect of transaction.effects) {
+			try {
+				effect()
+			} catch (error) {
+				errors.push(error)
+			}
+		}
+	} finally {
+		committingId = outerCommit
+	}
+	if (errors.length > 0) throw errors[0]
+}
@@ -0,0 +1,128 @@
+import type { JSONPrimitive } from './json-types'
+import type { Store, StoreResult, StoreValue } from './store'
+
+// Type-only brand carrying the data shape of a Store<TShape>
+export declare const storeShape: unique symbol
+
+// Stores without fields of their own or a data shape accept any path
+export interface DynamicShape {
+	[key: string]: StoreValue
+}
+
+// Recursion depth available to path completion, nested stores beyond it accept any path
+type Depth = [never, 0, 1, 2, 3, 4, 5]
+
+type FieldKeys<TStore> = Exclude<keyof TStore, keyof Store | typeof storeShape> & string
+
+type DataShape<TStore> = TStore extends { readonly [storeShape]: infer TShape } ? TShape : never
+
+// Plain objects written to a store are kept as nested stores
+type Stored<TValue> = TValue extends
+	| JSONPrimitive
+	| readonly unknown[]
+	| Store
+	| ((...args: never[]) => unknown)
+	? TValue
+	: TValue extends object
+		? Store<TValue>
+		: TValue
+
+type StoredShape<TShape> = { [TKey in keyof TShape]: Stored<TShape[TKey]> }
+
+type ShapeOf<TStore> = [FieldKeys<TStore>] extends [never]
+	? StoredShape<DataShape<TStore>>
+	: string extends keyof DataShape<TStore>
+		? Pick<TStore, FieldKeys<TStore>>
+		: Pick<TStore, FieldKeys<TStore>> & StoredShape<DataShape<TStore>>
+
+type IsDynamic<TStore> = string extends keyof ShapeOf<TStore>
+	? true
+	: [keyof ShapeOf<TStore>] extends [never]
+		? true
+		: false
+
+// Lazy values and computed keys are typed by what they return
+type Resolved<TValue> = TValue extends (...args: never[]) => infer TResult ? TResult : TValue
+
+type Traversed<TValue> = Awaited<Resolved<TValue>>
+
+type ChildPaths<TValue, TDepth extends number> = [TDepth] extends [never]
+	? string
+	: TValue extends Store
+		? StorePath<TValue, TDepth>
+		: TValue extends readonly (infer TItem)[]
+			? `${number}` | `${number}:${ChildPaths<TItem, Depth[TDepth]>}`
+			: TValue extends object
+				? KeyPaths<TValue, TDepth>
+				: never
+
+type KeyPaths<TShape, TDepth extends number> = string extends keyof TShape
+	? string
+	: {
+			[TKey in keyof TShape & string]:
+				| TKey
+				| `${TKey}:${ChildPaths<Traversed<TShape[TKey]>, Depth[TDepth]>}`
+		}[keyof TShape & string]
+
+export type StorePath<TStore, TDepth extends number = 5> =
+	IsDynamic<TStore> extends true ? string : KeyPaths<ShapeOf<TStore>, TDepth>
+
+type Child<TContainer, TKey extends string> = TContainer extends readonly (infer TItem)[]
+	? TKey extends `${number}`
+		? TItem | undefined
+		: never
+	: TKey extends keyof TContainer
+		? TContainer[TKey]
+		: never
+
+type ValueIn<TValue, TPath extends string> = TValue extends undefined
+	? undefined
+	: TValue extends Store
+		? IsDynamic<TValue> extends true
+			? StoreResult
+			: ValueAt<ShapeOf<TValue>, TPath>
+		: TValue extends object
+			? ValueAt<TValue, TPath>
+			: never
+
+type ValueAt<TContainer, TPath extends string> = TPath extends `${infer TKey}:${infer TRest}`
+	? ValueIn<Traversed<Child<TContainer, TKey>>, TRest>
+	: Resolved<Child<TContainer, TPath>>
+
+export type PathValue<TStore, TPath extends string> = ValueIn<TStore, TPath>
+
+type ShapeInput<TValue> = TValue extends Store
+	? string extends keyof DataShape<TValue>
+		? never
+		: DataShape<TValue>
+	: never
+
+// Nested stores can also be written as the plain object of their data shape
+export type PathInput<TStore, TPath extends string> =
+	IsDynamic<TStore> extends true
+		? StoreValue
+		: PathValue<TStore, TPath> extends infer TValue
+			? StoreResult extends TValue
+				? StoreValue
+				: TValue | ShapeInput<TValue> | (() => TValue)
+			: never
+
+// Paths outside of the store's shape are reported against the list of valid ones
+export type CheckedPath<TStore, TPath extends string> =
+	TPath extends StorePath<TStore> ? TPath : StorePath<TStore>
+
+// Only matches paths typed as a plain string, literal paths are checked against the store's shape
+export type RuntimePath<TPath extends string> = string extends TPath ? TPath : never
+
+export interface DynamicView {
+	// biome-ignore lint/suspicious/noExplicitAny: dynamic stores are used like untyped objects
+	[key: string]: any
+}
+
+type ViewValue<TValue> = TValue extends Store ? ObjectView<TValue> : TValue
+
+// Object views mirror the shape of their store, nested stores becoming nested views
+export type ObjectView<TStore> =
+	IsDynamic<TStore> extends true
+		? DynamicView
+		: { -readonly [TKey in keyof ShapeOf<TStore>]: ViewValue<Resolved<ShapeOf<TStore>[TKey]>> }
@@ -0,0 +1,173 @@
+import { combinePermissions } from '../src/actor'
+import { AdminStore } from '../src/adminStore'
+import { PermissionDeniedError } from '../src/errors'
+import { definePathRule } from '../src/rules'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Traverse Permission
+
+These tests check that "t" keys can be passed through but not read themselves.
+
+*/
+
+describe('Access modes - Traverse', () => {
+	class DirectoryStore extends Store {
+		@Restrict('t')
+		public users = new Store()
+	}
+
+	let directoryStore: DirectoryStore
+
+	beforeEach(() => {
+		directoryStore = new DirectoryStore()
+		directoryStore.users.writeEntries({ john: { name: 'John' } })
+	})
+
+	it('reads values below the key', () => {
+		expect(directoryStore.read('users:john:name')).toBe('John')
+		expect(directoryStore.has('users:john')).toBe(true)
+		expect(directoryStore.keys('users:john')).toEqual(['name'])
+		expect(directoryStore.allowedToRead('users:john:name')).toBe(true)
+	})
+
+	it('does not read or list the key itself', () => {
+		expect(() => directoryStore.read('users')).toThrow(
+			expect.objectContaining({ segment: 'users', operation: 'read', permission: 't' })
+		)
+		expect(() => directoryStore.keys('users')).toThrow(PermissionDeniedError)
+		expect(directoryStore.keys()).toEqual([])
+		expect(directoryStore.allowedToRead('users')).toBe(false)
+	})
+
+	it('applies to path rules on the way to a key', () => {
+		const store = new Store()
+		store.write('a:b:c', 'value')
+		definePathRule(store, 'a:b', 't')
+		expect(store.read('a:b:c')).toBe('value')
+		expect(() => store.read('a:b')).toThrow(PermissionDeniedError)
+	})
+})
+
+/*
+
+2. Append Permission
+
+These tests check that "a" keys can be created but not overwritten.
+
+*/
+
+describe('Access modes - Append', () => {
+	let logStore: Store
+
+	beforeEach(() => {
+		logStore = new Store()
+		logStore.defaultPolicy = 'ra'
+	})
+
+	it('creates keys that do not hold a value yet', () => {
+		logStore.write('first', 'entry')
+		logStore.writeEntries({ second: 'entry' })
+		expect(logStore.keys()).toEqual(['first', 'second'])
+	})
+
+	it('rejects overwriting and deleting existing keys', () => {
+		logStore.write('first', 'entry')
+		expect(logStore.allowedToWrite('first')).toBe(false)
+		expect(logStore.allowedToWrite('other')).toBe(true)
+		expect(() => logStore.write('first', 'changed')).toThrow(
+			expect.objectContaining({ operation: 'write', permission: 'ra' })
+		)
+		expect(() => logStore.delete('first')).toThrow(PermissionDeniedError)
+		expect(logStore.read('first')).toBe('entry')
+	})
+
+	it('applies to path rules on the target key', () => {
+		const store = new Store()
+		definePathRule(store, 'events:*', 'a')
+		store.write('events:1', 'created')
+		expect(() => store.write('events:1', 'changed')).toThrow(PermissionDeniedError)
+	})
+})
+
+/*
+
+3. Nested-Write Policy
+
+These tests check what writing through a parent key needs on that key.
+
+*/
+
+describe('Access modes - Nested-Write Policy', () => {
+	let adminStore: AdminStore
+
+	beforeEach(() => {
+		adminStore = new AdminStore(new UserStore())
+	})
+
+	it('only needs read on the parent by default', () => {
+		adminStore.write('user:name', 'Jane Doe')
+		expect(adminStore.read('user:name')).toBe('Jane Doe')
+	})
+
+	it('keeps read-only references read-only under the write policy', () => {
+		adminStore.nestedWritePolicy = 'write'
+		expect(adminStore.allowedToWrite('user:name')).toBe(false)
+		expect(() => adminStore.write('user:name', 'Jane Doe')).toThrow(
+			expect.objectContaining({ segment: 'user', operation: 'write', permission: 'r' })
+		)
+		expect(() => adminStore.delete('user:name')).toThrow(PermissionDeniedError)
+		expect(adminStore.read('user:name')).toBe('John Doe')
+	})
+
+	it('lets traverse keys be written through under the traverse policy', () => {
+		class FolderStore extends Store {
+			@Restrict('t')
+			public files = new Store()
+		}
+		const folderStore = new FolderStore()
+		expect(() => folderStore.write('files:a', 'content')).toThrow(PermissionDeniedError)
+
+		folderStore.nestedWritePolicy = 'traverse'
+		folderStore.write('files:a', 'content')
+		expect(folderStore.read('files:a')).toBe('content')
+	})
+
+	it('applies to path rules on the way to a key', () => {
+		const store = new Store()
+		store.nestedWritePolicy = 'write'
+		store.write('settings:theme:color', 'blue')
+		definePathRule(store, 'settings:theme', 'r')
+		expect(() => store.write('settings:theme:color', 'red')).toThrow(PermissionDeniedError)
+	})
+
+	it('is not exported as a key of the store', () => {
+		const store = new Store()
+		store.nestedWritePolicy = 'write'
+		expect(store.keys()).toEqual([])
+		expect(store.snapshot()).toEqual({})
+	})
+})
+
+/*
+
+4. Combined Roles
+
+These tests check how the new permissions combine across roles.
+
+*/
+
+describe('Access modes - Combined Roles', () => {
+	it.each([
+		[['r', 'a'], 'ra'],
+		[['t', 'r'], 'r'],
+		[['a', 'w'], 'w'],
+		[['t', 'a'], 'a'],
+		[['ra', 'w'], 'rw'],
+		[['t', 'none'], 't'],
+	] as const)('combines %j into %j', (permissions, expected) => {
+		expect(combinePermissions([...permissions])).toBe(expected)
+	})
+})
@@ -0,0 +1,113 @@
+import type { Actor } from '../src/actor'
+import { AdminStore } from '../src/adminStore'
+import { PermissionDeniedError } from '../src/errors'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Role Rules
+
+These tests check permissions granted to actors through their roles.
+
+*/
+
+describe('Actor permissions - Role Rules', () => {
+	class DocumentStore extends Store {
+		@Restrict({ roles: { admin: 'rw', editor: 'w', viewer: 'r' } })
+		public title = 'Draft'
+
+		@Restrict({ roles: { admin: 'rw' }, default: 'r' })
+		public status = 'open'
+	}
+
+	const admin: Actor = { id: 'a-1', roles: ['admin'] }
+	const viewer: Actor = { id: 'v-1', roles: ['viewer'] }
+
+	it('grants the permission of the actor role', () => {
+		const documentStore = new DocumentStore()
+		expect(documentStore.as(viewer).read('title')).toBe('Draft')
+		expect(() => documentStore.as(viewer).write('title', 'Final')).toThrow(PermissionDeniedError)
+
+		documentStore.as(admin).write('title', 'Final')
+		expect(documentStore.as(admin).read('title')).toBe('Final')
+	})
+
+	it('combines the permissions of several roles', () => {
+		const documentStore = new DocumentStore()
+		const actor = documentStore.as({ roles: ['viewer', 'editor'] })
+		expect(actor.permissionFor('title')).toBe('rw')
+	})
+
+	it('falls back to the rule default without a matching role', () => {
+		const documentStore = new DocumentStore()
+		expect(documentStore.permissionFor('title')).toBe('none')
+		expect(documentStore.read('status')).toBe('open')
+		expect(documentStore.as(viewer).allowedToWrite('status')).toBe(false)
+		expect(documentStore.as(admin).allowedToWrite('status')).toBe(true)
+	})
+})
+
+/*
+
+2. Predicates
+
+These tests check permissions computed from the actor, the key and the value.
+
+*/
+
+describe('Actor permissions - Predicates', () => {
+	class NoteStore extends Store {
+		@Restrict((actor, _key, value) => {
+			if (value instanceof Store && value.read('ownerId') === actor?.id) return 'rw'
+			return actor?.attributes?.auditor ? 'r' : 'none'
+		})
+		public note = Store.fromJSON({ ownerId: 'u-1', text: 'hello' })
+	}
+
+	it('lets owners read and write their values', () => {
+		const noteStore = new NoteStore()
+		const owner = noteStore.as({ id: 'u-1' })
+		owner.write('note:text', 'updated')
+		expect(owner.read('note:text')).toBe('updated')
+	})
+
+	it('evaluates attributes', () => {
+		const noteStore = new NoteStore()
+		expect(noteStore.as({ id: 'u-2', attributes: { auditor: true } }).read('note:text')).toBe(
+			'hello'
+		)
+		expect(() => noteStore.as({ id: 'u-2' }).read('note:text')).toThrow(PermissionDeniedError)
+		expect(() => noteStore.read('note')).toThrow(PermissionDeniedError)
+	})
+})
+
+/*
+
+3. Nested Stores
+
+These tests check that the actor is passed down when a path is traversed.
+
+*/
+
+describe('Actor permissions - Nested Stores', () => {
+	class ProfileStore extends UserStore {
+		@Restrict({ roles: { support: 'r' } })
+		public email = 'john@example.com'
+	}
+
+	it('evaluates nested stores against the same actor', () => {
+		const adminStore: Store = new AdminStore(new ProfileStore())
+		expect(adminStore.as({ roles: ['support'] }).read('user:email')).toBe('john@example.com')
+		expect(() => adminStore.read('user:email')).toThrow(PermissionDeniedError)
+		expect(adminStore.as({ roles: ['support'] }).snapshot()).toEqual({
+			user: { name: 'John Doe', email: 'john@example.com' },
+		})
+	})
+
+	it('keeps the static behavior without an actor', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect(adminStore.read('user:name')).toBe('John Doe')
+		expect(() => adminStore.as({ roles: ['admin'] }).read('name')).toThrow(PermissionDeniedError)
+	})
+})
@@ -0,0 +1,206 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { AdminStore } from '../src/adminStore'
+import { type AuditRecord, CallbackAuditSink, FileAuditSink, MemoryAuditSink } from '../src/audit'
+import { PermissionDeniedError } from '../src/errors'
+import { Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+const summary = ({ path, operation, outcome }: AuditRecord) => ({ path, operation, outcome })
+
+/*
+
+1. Recording
+
+These tests check which accesses end up in the audit log.
+
+*/
+
+describe('Store audit - Recording', () => {
+	let adminStore: AdminStore
+	let sink: MemoryAuditSink
+
+	beforeEach(() => {
+		adminStore = new AdminStore(new UserStore())
+		sink = new MemoryAuditSink()
+		adminStore.attachAudit(sink)
+	})
+
+	it('records reads and writes with the store class', () => {
+		adminStore.read('user:name')
+		adminStore.write('getCredentials:password', 'secret')
+
+		expect(sink.query()).toEqual([
+			expect.objectContaining({
+				path: 'user:name',
+				operation: 'read',
+				outcome: 'allowed',
+				storeName: 'AdminStore',
+				timestamp: expect.any(Number),
+			}),
+			expect.objectContaining({ path: 'getCredentials:password', operation: 'write' }),
+		])
+	})
+
+	it('records reads of lazy values once', () => {
+		adminStore.read('getCredentials:username')
+		expect(sink.query().map(summary)).toEqual([
+			{ path: 'getCredentials:username', operation: 'read', outcome: 'allowed' },
+		])
+	})
+
+	it('records denied accesses with their reason', () => {
+		expect(() => adminStore.read('name')).toThrow(PermissionDeniedError)
+		expect(() => adminStore.write('name', 'Jane')).toThrow(PermissionDeniedError)
+
+		const [read, write] = sink.query()
+		expect(read).toMatchObject({ path: 'name', outcome: 'denied' })
+		expect(read?.reason).toMatch('read access to "name" is denied')
+		expect(write).toMatchObject({ path: 'name', operation: 'write', outcome: 'denied' })
+	})
+
+	it('records other failures', () => {
+		// @ts-expect-error "user:name" holds a string
+		expect(() => adminStore.read('user:name:first')).toThrow()
+		expect(sink.query().map(summary)).toEqual([
+			{ path: 'user:name:first', operation: 'read', outcome: 'failed' },
+		])
+	})
+
+	it('records writeEntries along with each key it writes', () => {
+		const store = new Store()
+		store.attachAudit(sink)
+		store.writeEntries({ name: 'John', profile: { age: 42 } })
+
+		expect(sink.query().map(summary)).toEqual([
+			{ path: 'name', operation: 'write', outcome: 'allowed' },
+			{ path: 'profile', operation: 'write', outcome: 'allowed' },
+			{ path: '', operation: 'writeEntries', outcome: 'allowed' },
+		])
+	})
+
+	it('records accesses made directly on nested stores with the full path', () => {
+		const userStore = adminStore.read('user') as Store
+		userStore.write('name', 'Jane')
+		expect(sink.query().map(summary)).toContainEqual({
+			path: 'user:name',
+			operation: 'write',
+			outcome: 'allowed',
+		})
+	})
+
+	it('records accesses made through the parent into the sinks of nested stores', () => {
+		const userStore = adminStore.read('user') as Store
+		const userSink = new MemoryAuditSink()
+		userStore.attachAudit(userSink)
+		adminStore.read('user:name')
+
+		expect(userSink.query().map(summary)).toEqual([
+			{ path: 'name', operation: 'read', outcome: 'allowed' },
+		])
+		expect(sink.query({ pathPrefix: 'user:name' })).toHaveLength(1)
+	})
+
+	it('records accesses to other stores made during an operation', () => {
+		const settingsStore = new Store()
+		settingsStore.write('theme', 'dark')
+		const settingsSink = new MemoryAuditSink()
+		settingsStore.attachAudit(settingsSink)
+		const store = new Store()
+		store.use((_, next) => {
+			settingsStore.read('theme')
+			return next()
+		})
+
+		store.write('name', 'John')
+		expect(settingsSink.query().map(summary)).toEqual([
+			{ path: 'theme', operation: 'read', outcome: 'allowed' },
+		])
+	})
+
+	it('records the actor', () => {
+		adminStore.as({ id: 'auditor', roles: ['security'] }).read('user')
+		expect(sink.query()[0]?.actor).toEqual({ id: 'auditor', roles: ['security'] })
+	})
+
+	it('stops recording once detached', () => {
+		const store = new Store()
+		const audit = store.attachAudit(sink)
+		store.write('name', 'John')
+		audit.detach()
+		store.read('name')
+		expect(sink.query()).toHaveLength(1)
+	})
+})
+
+/*
+
+2. Sinks and Queries
+
+These tests check the built-in sinks and how records are looked up.
+
+*/
+
+describe('Store audit - Sinks and Queries', () => {
+	let directory: string
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), 'store-audit-'))
+	})
+
+	afterEach(() => {
+		jest.restoreAllMocks()
+		rmSync(directory, { recursive: true, force: true })
+	})
+
+	it('keeps the latest records in the ring buffer', () => {
+		const sink = new MemoryAuditSink(2)
+		const store = new Store()
+		store.attachAudit(sink)
+		for (const key of ['a', 'b', 'c']) store.write(key, key)
+
+		expect(sink.query().map((entry) => entry.path)).toEqual(['b', 'c'])
+	})
+
+	it('queries by path prefix and time range', () => {
+		const sink = new MemoryAuditSink()
+		const store = new Store()
+		store.attachAudit(sink)
+		const now = jest.spyOn(Date, 'now')
+		now.mockReturnValue(1000)
+		store.write('users:john', 'John')
+		now.mockReturnValue(2000)
+		store.write('usersCount', 1)
+		now.mockReturnValue(3000)
+		store.write('users:jane', 'Jane')
+
+		const paths = (entries: AuditRecord[]) => entries.map((entry) => entry.path)
+		expect(paths(sink.query({ pathPrefix: 'users' }))).toEqual(['users:john', 'users:jane'])
+		expect(paths(sink.query({ from: 1500, to: 2000 }))).toEqual(['usersCount'])
+		expect(paths(sink.query({ pathPrefix: 'users', from: 2000 }))).toEqual(['users:jane'])
+	})
+
+	it('appends records to a JSONL file', () => {
+		const filePath = join(directory, 'audit.jsonl')
+		const sink = new FileAuditSink(filePath)
+		const store = new Store()
+		store.attachAudit(sink)
+		store.write('name', 'John')
+		store.read('name')
+
+		const lines = readFileSync(filePath, 'utf8').trim().split('\n')
+		expect(lines.map((line) => JSON.parse(line).operation)).toEqual(['write', 'read'])
+		expect(sink.query({ pathPrefix: 'name' })).toHaveLength(2)
+		expect(new FileAuditSink(join(directory, 'missing.jsonl')).query()).toEqual([])
+	})
+
+	it('passes records to a callback', () => {
+		const callback = jest.fn()
+		const store = new Store()
+		store.attachAudit(new CallbackAuditSink(callback))
+		store.write('name', 'John')
+
+		expect(callback).toHaveBeenCalledWith(expect.objectContaining({ path: 'name' }))
+	})
+})
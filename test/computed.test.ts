@@ -0,0 +1,116 @@
+import { Computed } from '../src/computed'
+import { PermissionDeniedError } from '../src/errors'
+import { Restrict, Store, type StoreResult } from '../src/store'
+
+class PersonStore extends Store {
+	static computeCount = 0
+	declare profile?: Store
+	declare other?: string
+
+	@Restrict('none')
+	secret = 'hidden'
+
+	@Computed('profile:first', 'profile:last')
+	displayName(first: StoreResult, last: StoreResult) {
+		PersonStore.computeCount++
+		return [first, last].filter(Boolean).join(' ')
+	}
+
+	@Restrict({ roles: { admin: 'rw' } })
+	@Computed('secret')
+	secretLength(secret: StoreResult) {
+		return typeof secret === 'string' ? secret.length : 0
+	}
+}
+
+/*
+
+1. Derived Values
+
+These tests check that computed keys follow their dependencies.
+
+*/
+
+describe('Computed keys - Derived Values', () => {
+	let personStore: PersonStore
+
+	beforeEach(() => {
+		personStore = new PersonStore()
+		personStore.writeEntries({ profile: { first: 'John', last: 'Doe' } })
+		PersonStore.computeCount = 0
+	})
+
+	it('derives the value from the dependencies', () => {
+		expect(personStore.read('displayName')).toBe('John Doe')
+	})
+
+	it('recomputes once a dependency is written', () => {
+		personStore.read('displayName')
+		personStore.write('profile:first', 'Jane')
+		expect(personStore.read('displayName')).toBe('Jane Doe')
+
+		personStore.writeEntries({ profile: { first: 'Jim' } })
+		expect(personStore.read('displayName')).toBe('Jim')
+	})
+
+	it('caches the value while the dependencies are unchanged', () => {
+		personStore.read('displayName')
+		personStore.read('displayName')
+		personStore.write('other', 'value')
+		personStore.read('displayName')
+		expect(PersonStore.computeCount).toBe(1)
+	})
+
+	it('reads dependencies whatever their permissions', () => {
+		expect(personStore.as({ roles: ['admin'] }).read('secretLength')).toBe(6)
+	})
+
+	it('is inherited by subclasses', () => {
+		class EmployeeStore extends PersonStore {}
+		const employeeStore = new EmployeeStore()
+		employeeStore.write('profile:first', 'Ann')
+		expect(employeeStore.read('displayName')).toBe('Ann')
+	})
+})
+
+/*
+
+2. Permissions and Exports
+
+These tests check that computed keys are read-only keys like any other.
+
+*/
+
+describe('Computed keys - Permissions and Exports', () => {
+	let personStore: PersonStore
+
+	beforeEach(() => {
+		personStore = new PersonStore()
+		personStore.writeEntries({ profile: { first: 'John', last: 'Doe' } })
+	})
+
+	it('cannot be written', () => {
+		expect(personStore.permissionFor('displayName')).toBe('r')
+		expect(personStore.allowedToWrite('displayName')).toBe(false)
+		expect(() => personStore.write('displayName', 'Jane')).toThrow(PermissionDeniedError)
+		expect(() => personStore.writeEntries({ displayName: 'Jane' })).toThrow(PermissionDeniedError)
+	})
+
+	it('follows Restrict', () => {
+		expect(() => personStore.read('secretLength')).toThrow(PermissionDeniedError)
+		expect(personStore.as({ roles: ['admin'] }).permissionFor('secretLength')).toBe('r')
+	})
+
+	it('appears in exports and multi-reads', () => {
+		expect(personStore.snapshot()).toEqual({
+			profile: { first: 'John', last: 'Doe' },
+			displayName: 'John Doe',
+		})
+		expect(personStore.readAll('*').get('displayName')).toBe('John Doe')
+	})
+
+	it('is derived again when hydrating', () => {
+		const copy = PersonStore.fromJSON(personStore.toJSON())
+		expect(copy.read('displayName')).toBe('John Doe')
+	})
+})
@@ -0,0 +1,221 @@
+import { randomBytes } from 'node:crypto'
+import { AdminStore } from '../src/adminStore'
+import { Computed } from '../src/computed'
+import {
+	currentKeyProvider,
+	defineEncryption,
+	Encrypted,
+	type KeyProvider,
+	KeyRing,
+	SealedValue,
+	useKeyProvider,
+} from '../src/encryption'
+import { DecryptionError, PermissionDeniedError } from '../src/errors'
+import { MemoryStorageAdapter } from '../src/storage'
+import { Restrict, Store, type StoreResult } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+const sealed = expect.any(SealedValue)
+const exported = expect.stringMatching(/^enc:v1:/)
+
+/*
+
+1. Encrypted Fields
+
+These tests check that encrypted keys hold ciphertext and are decrypted on allowed reads.
+
+*/
+
+describe('Encryption - Encrypted Fields', () => {
+	class AccountStore extends Store {
+		@Encrypted()
+		public apiKey = 'sk-live-123'
+
+		@Encrypted()
+		@Restrict({ roles: { admin: 'rw' } })
+		public password?: string
+
+		public email = 'john@example.com'
+	}
+
+	let accountStore: AccountStore
+
+	beforeEach(() => {
+		accountStore = new AccountStore()
+	})
+
+	it('keeps written values as ciphertext', () => {
+		accountStore.as({ roles: ['admin'] }).write('password', 'hunter2')
+		expect(accountStore.data.get('password')).toEqual(sealed)
+		expect(JSON.stringify([...accountStore.data.values()])).not.toContain('hunter2')
+	})
+
+	it('decrypts values on reads that are allowed', () => {
+		const admin = accountStore.as({ roles: ['admin'] })
+		admin.write('password', 'hunter2')
+		expect(admin.read('password')).toBe('hunter2')
+		expect(accountStore.read('apiKey')).toBe('sk-live-123')
+		expect(accountStore.read('email')).toBe('john@example.com')
+		expect(() => accountStore.read('password')).toThrow(PermissionDeniedError)
+	})
+
+	it('seals class fields in place', () => {
+		expect(accountStore.read('apiKey')).toBe('sk-live-123')
+		expect(accountStore.apiKey).toEqual(sealed)
+	})
+
+	it('exports and persists ciphertext only', () => {
+		const adapter = new MemoryStorageAdapter()
+		accountStore.attachStorage(adapter)
+		accountStore.as({ roles: ['admin'] }).write('password', 'hunter2')
+
+		expect(accountStore.snapshot()).toEqual({ apiKey: exported, email: 'john@example.com' })
+		expect(JSON.stringify(adapter.load())).not.toMatch(/hunter2|sk-live-123/)
+	})
+
+	it('restores ciphertext from exports without sealing it twice', () => {
+		const restored = AccountStore.fromJSON(accountStore.snapshot())
+		expect(restored.read('apiKey')).toBe('sk-live-123')
+	})
+
+	it('seals whole values of any JSON type', () => {
+		const store = new Store()
+		defineEncryption(store, 'codes')
+		store.write('codes', [1, 2, 3])
+		expect(store.data.get('codes')).toEqual(sealed)
+		expect(store.read('codes')).toEqual([1, 2, 3])
+	})
+
+	it('keeps strings that look like ciphertext as they are written', () => {
+		const text = 'enc:v1:default:AAAA:AAAA:AAAA'
+		accountStore.write('email', text)
+		accountStore.write('apiKey', text)
+		expect(accountStore.read('email')).toBe(text)
+		expect(accountStore.data.get('apiKey')).toEqual(sealed)
+		expect(accountStore.read('apiKey')).toBe(text)
+	})
+
+	it('seals objects written to encrypted keys as a whole', () => {
+		class VaultStore extends Store {
+			@Encrypted()
+			public creds: { password?: string; user?: string } = {}
+		}
+		const vaultStore = new VaultStore()
+		vaultStore.write('creds', { password: 'hunter2' })
+		vaultStore.write('creds:user', 'john')
+
+		expect(vaultStore.data.get('creds')).toEqual(sealed)
+		expect(vaultStore.read('creds:password')).toBe('hunter2')
+		expect(vaultStore.read('creds')).toEqual({ password: 'hunter2', user: 'john' })
+		expect(JSON.stringify(vaultStore.snapshot())).not.toContain('hunter2')
+	})
+
+	it('passes opened values to computed keys', () => {
+		class PinStore extends Store {
+			@Encrypted()
+			public pin = '1234'
+
+			@Computed('pin')
+			pinLength(pin: StoreResult) {
+				return typeof pin === 'string' ? pin.length : 0
+			}
+		}
+		expect(new PinStore().read('pinLength')).toBe(4)
+	})
+})
+
+/*
+
+2. Path Patterns
+
+These tests check encryption defined for paths of nested stores.
+
+*/
+
+describe('Encryption - Path Patterns', () => {
+	it('applies to nested stores written through the store', () => {
+		const directoryStore = new Store()
+		defineEncryption(directoryStore, 'users:*:ssn')
+		directoryStore.writeEntries({ users: { john: { name: 'John', ssn: '123-45-6789' } } })
+		directoryStore.write('users:jane:ssn', '987-65-4321')
+
+		const john = directoryStore.read('users:john') as Store
+		expect(john.data.get('ssn')).toEqual(sealed)
+		expect(john.data.get('name')).toBe('John')
+		expect(directoryStore.read('users:john:ssn')).toBe('123-45-6789')
+		expect(directoryStore.read('users:jane:ssn')).toBe('987-65-4321')
+	})
+
+	it('keeps the credentials of the admin store encrypted', () => {
+		const adminStore = new AdminStore(new UserStore())
+		const credentials = adminStore.read('getCredentials') as Store
+		expect(credentials.data.get('username')).toEqual(sealed)
+		expect(adminStore.read('getCredentials:username')).toBe('user1')
+	})
+})
+
+/*
+
+3. Key Rotation
+
+These tests check rotating keys and sealing values again under the current key.
+
+*/
+
+describe('Encryption - Key Rotation', () => {
+	let defaultProvider: KeyProvider
+	let keyRing: KeyRing
+	let store: Store
+
+	beforeEach(() => {
+		defaultProvider = currentKeyProvider()
+		keyRing = new KeyRing('2024', randomBytes(32))
+		useKeyProvider(keyRing)
+		store = new Store()
+		defineEncryption(store, '**')
+		store.writeEntries({ token: 'abc', profile: { pin: '1234' } })
+	})
+
+	afterEach(() => {
+		useKeyProvider(defaultProvider)
+	})
+
+	it('opens values sealed under older keys after a rotation', () => {
+		keyRing.rotate('2025', randomBytes(32))
+		store.write('other', 'def')
+		expect(store.data.get('token')).toHaveProperty('keyId', '2024')
+		expect(store.data.get('other')).toHaveProperty('keyId', '2025')
+		expect(store.read('token')).toBe('abc')
+	})
+
+	it('seals values again under the current key', () => {
+		keyRing.rotate('2025', randomBytes(32))
+		expect(store.reencrypt()).toBe(2)
+		expect(store.reencrypt()).toBe(0)
+		expect(keyRing.retire('2024')).toBe(true)
+
+		expect(store.data.get('token')).toHaveProperty('keyId', '2025')
+		expect(store.read('token')).toBe('abc')
+		expect(store.read('profile:pin')).toBe('1234')
+	})
+
+	it('does not retire the current key', () => {
+		expect(keyRing.retire('2024')).toBe(false)
+		expect(keyRing.keyFor('2024')).toBeDefined()
+	})
+
+	it('rejects values whose key is gone', () => {
+		keyRing.rotate('2025', randomBytes(32))
+		keyRing.retire('2024')
+		expect(() => store.read('token')).toThrow(DecryptionError)
+		expect(() => store.read('token')).toThrow(
+			'Cannot read "token" on Store: "token" could not be decrypted'
+		)
+	})
+
+	it('rejects tampered values', () => {
+		const token = (store.data.get('token') as SealedValue).toJSON()
+		store.data.set('token', SealedValue.fromJSON(`${token.slice(0, -4)}AAAA`))
+		expect(() => store.read('token')).toThrow(DecryptionError)
+	})
+})
@@ -0,0 +1,84 @@
+import { AdminStore } from '../src/adminStore'
+import {
+	InvalidPathError,
+	NotTraversableError,
+	PermissionDeniedError,
+	StoreError,
+} from '../src/errors'
+import { Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Error Details
+
+These tests check that failed operations throw typed errors describing why they failed.
+
+*/
+
+describe('Store errors - Error Details', () => {
+	let adminStore: AdminStore
+
+	beforeEach(() => {
+		adminStore = new AdminStore(new UserStore())
+	})
+
+	it('throws a permission error for a denied read', () => {
+		expect(() => adminStore.read('name')).toThrow(PermissionDeniedError)
+
+		try {
+			adminStore.read('name')
+		} catch (error) {
+			expect(error).toMatchObject({
+				path: 'name',
+				segment: 'name',
+				operation: 'read',
+				permission: 'none',
+				storeName: 'AdminStore',
+			})
+		}
+	})
+
+	it('reports the denied segment of a nested write', () => {
+		// @ts-expect-error "profile" is not a field of AdminStore
+		expect(() => adminStore.write('profile:name', 'John Smith')).toThrow(
+			expect.objectContaining({ segment: 'profile', operation: 'read', permission: 'none' })
+		)
+	})
+
+	it('reports the full path when a nested store denies access', () => {
+		const store = new Store()
+		const restricted = new Store()
+		restricted.defaultPolicy = 'r'
+		store.write('nested', restricted)
+
+		expect(() => store.write('nested:key', 'value')).toThrow(
+			expect.objectContaining({
+				path: 'nested:key',
+				segment: 'key',
+				operation: 'write',
+				permission: 'r',
+				storeName: 'Store',
+			})
+		)
+	})
+
+	it('throws an invalid path error for empty segments', () => {
+		const store = new Store()
+		expect(() => store.read('')).toThrow(InvalidPathError)
+		expect(() => store.write('a::b', 'value')).toThrow(
+			expect.objectContaining({ path: 'a::b', segment: '' })
+		)
+	})
+
+	it('throws a not traversable error when reading through a primitive', () => {
+		const store = new Store()
+		store.write('name', 'John')
+		expect(() => store.read('name:first')).toThrow(NotTraversableError)
+	})
+
+	it('keeps every error a StoreError', () => {
+		expect(() => adminStore.read('name')).toThrow(StoreError)
+		expect(() => adminStore.read('name')).toThrow(Error)
+	})
+})
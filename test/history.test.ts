@@ -0,0 +1,231 @@
+import { AdminStore } from '../src/adminStore'
+import { MemoryAuditSink } from '../src/audit'
+import { PermissionDeniedError } from '../src/errors'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Undo and Redo
+
+These tests check that committed changes can be undone and redone.
+
+*/
+
+describe('Store history - Undo and Redo', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+		store.enableHistory()
+	})
+
+	it('undoes and redoes writes', () => {
+		store.write('name', 'John')
+		store.write('name', 'Jane')
+		expect(store.currentVersion()).toBe(2)
+
+		expect(store.undo()).toBe(true)
+		expect(store.read('name')).toBe('John')
+		expect(store.currentVersion()).toBe(1)
+		expect(store.redo()).toBe(true)
+		expect(store.read('name')).toBe('Jane')
+		expect(store.redo()).toBe(false)
+	})
+
+	it('includes writes into nested stores and values', () => {
+		store.writeEntries({ profile: { name: 'John' }, tags: ['a'] })
+		store.write('profile:name', 'Jane')
+		store.write('tags:0', 'b')
+		const profile = store.read('profile') as Store
+		profile.write('age', 42)
+
+		store.undo()
+		store.undo()
+		store.undo()
+		expect(store.read('profile:name')).toBe('John')
+		expect(store.read('tags')).toEqual(['a'])
+		expect(profile.read('age')).toBeUndefined()
+		store.undo()
+		expect(store.read('profile')).toBeUndefined()
+	})
+
+	it('includes writes made directly on class field stores', () => {
+		const userStore = new UserStore()
+		const adminStore = new AdminStore(userStore)
+		adminStore.enableHistory()
+		userStore.write('name', 'Jane Doe')
+
+		expect(adminStore.currentVersion()).toBe(1)
+		adminStore.undo()
+		expect(userStore.read('name')).toBe('John Doe')
+	})
+
+	it('groups the changes of a transaction into one version', () => {
+		store.transaction((transaction) => {
+			transaction.write('a', 1)
+			transaction.write('b', 2)
+		})
+		store.writeEntries({ c: 3, d: 4 })
+		expect(store.currentVersion()).toBe(2)
+
+		store.undo()
+		expect(store.read('c')).toBeUndefined()
+		expect(store.read('a')).toBe(1)
+		store.undo()
+		expect(store.read('a')).toBeUndefined()
+	})
+
+	it('drops undone changes once a new change is made', () => {
+		store.write('name', 'John')
+		store.undo()
+		store.write('name', 'Jane')
+		expect(store.redo()).toBe(false)
+	})
+
+	it('notifies subscribers of undone changes', () => {
+		store.write('name', 'John')
+		const listener = jest.fn()
+		store.subscribe('name', listener)
+		store.undo()
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({ oldValue: 'John', newValue: undefined })
+		)
+	})
+
+	it('does not run middleware again on the values it restores', () => {
+		store.use((context, next) =>
+			context.operation === 'write' && typeof context.value === 'string'
+				? next(`${context.value}!`)
+				: next()
+		)
+		store.write('name', 'x')
+		store.write('name', 'y')
+
+		store.undo()
+		expect(store.read('name')).toBe('x!')
+		store.redo()
+		expect(store.read('name')).toBe('y!')
+		store.revert('name', 1)
+		expect(store.read('name')).toBe('x!')
+	})
+
+	it('undoes writes to append-only keys', () => {
+		class LedgerStore extends Store {
+			@Restrict('a')
+			public entry?: string
+		}
+		const ledgerStore = new LedgerStore()
+		ledgerStore.enableHistory()
+		ledgerStore.write('entry', 'first')
+
+		expect(ledgerStore.undo()).toBe(true)
+		expect(ledgerStore.data.has('entry')).toBe(false)
+		expect(ledgerStore.redo()).toBe(true)
+		expect(ledgerStore.data.get('entry')).toBe('first')
+		expect(() => ledgerStore.write('entry', 'second')).toThrow(PermissionDeniedError)
+	})
+
+	it('cannot run inside a transaction', () => {
+		store.write('name', 'John')
+		expect(() => store.transaction(() => store.undo())).toThrow('inside a transaction')
+		expect(store.read('name')).toBe('John')
+	})
+
+	it('keeps only the current version without history', () => {
+		const plainStore = new Store()
+		plainStore.write('name', 'John')
+		expect(plainStore.currentVersion()).toBe(0)
+		expect(plainStore.undo()).toBe(false)
+		expect(plainStore.at(0).read('name')).toBe('John')
+	})
+})
+
+/*
+
+2. Time Travel
+
+These tests check reads of earlier versions and reverting subtrees.
+
+*/
+
+describe('Store history - Time Travel', () => {
+	it('reads the tree as it was at a version', () => {
+		const store = new Store()
+		store.enableHistory()
+		store.write('profile:name', 'John')
+		store.write('profile:name', 'Jane')
+		store.write('profile:tags', ['admin'])
+
+		expect(store.at(1).read('profile:name')).toBe('John')
+		expect(store.at(1).read('profile:tags')).toBeUndefined()
+		expect(store.at(0).read('profile:name')).toBeUndefined()
+		expect(store.at(3).read('profile:tags')).toEqual(['admin'])
+		expect(store.read('profile:name')).toBe('Jane')
+	})
+
+	it('leaves the live tree untouched', () => {
+		const store = new Store()
+		store.enableHistory()
+		store.write('profile:name', 'John')
+		store.at(0).write('profile:name', 'Jane')
+		expect(store.read('profile:name')).toBe('John')
+	})
+
+	it('keeps the permissions of the store', () => {
+		const adminStore = new AdminStore(new UserStore())
+		adminStore.enableHistory()
+		adminStore.write('user:name', 'Jane')
+
+		const earlier = adminStore.at(0)
+		expect(earlier).toBeInstanceOf(AdminStore)
+		expect(earlier.read('user:name')).toBe('John Doe')
+		expect(() => earlier.read('name')).toThrow(PermissionDeniedError)
+	})
+
+	it('records reads into the audit sinks and runs the middleware of the store', () => {
+		const store = new Store()
+		store.enableHistory()
+		const sink = new MemoryAuditSink()
+		store.attachAudit(sink)
+		store.use((context, next) =>
+			context.operation === 'read' && context.path === 'secret' ? '****' : next()
+		)
+		store.write('secret', 'hunter2')
+
+		expect(store.at(1).read('secret')).toBe('****')
+		expect(sink.query({ pathPrefix: 'secret' }).map((entry) => entry.operation)).toEqual([
+			'write',
+			'read',
+		])
+	})
+
+	it('reverts a subtree as a new change', () => {
+		const store = new Store()
+		store.enableHistory()
+		store.writeEntries({ profile: { name: 'John', age: 42 }, theme: 'light' })
+		store.write('profile:name', 'Jane')
+		store.write('theme', 'dark')
+
+		store.revert('profile', 1)
+		expect(store.read('profile:name')).toBe('John')
+		expect(store.read('theme')).toBe('dark')
+		expect(store.currentVersion()).toBe(4)
+		store.undo()
+		expect(store.read('profile:name')).toBe('Jane')
+	})
+
+	it('forgets versions past the retention limit', () => {
+		const store = new Store()
+		store.enableHistory({ limit: 2 })
+		for (const name of ['a', 'b', 'c']) store.write('name', name)
+
+		expect(store.currentVersion()).toBe(3)
+		expect(store.at(1).read('name')).toBe('a')
+		expect(() => store.at(0)).toThrow(RangeError)
+		expect(store.undo()).toBe(true)
+		expect(store.undo()).toBe(true)
+		expect(store.undo()).toBe(false)
+		expect(store.read('name')).toBe('a')
+	})
+})
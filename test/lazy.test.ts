@@ -0,0 +1,237 @@
+import { AdminStore } from '../src/adminStore'
+import { MemoryAuditSink } from '../src/audit'
+import { AsyncValueError, PermissionDeniedError } from '../src/errors'
+import { lazy } from '../src/lazy'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+class VaultStore extends Store {
+	@Restrict('rw')
+	getCredentials = lazy(async () => {
+		const credentialStore = new CredentialStore()
+		credentialStore.writeEntries({ username: 'user1' })
+		return credentialStore
+	})
+	@Restrict('none')
+	getToken = lazy(async () => 'token')
+	@Restrict({ roles: { admin: 'r' } })
+	getAudit = lazy(async () => ['login'])
+}
+
+class CredentialStore extends Store {
+	declare username?: string
+	@Restrict('none')
+	password = 'secret'
+	@Restrict({ roles: { admin: 'r' } })
+	pin = '1234'
+}
+
+/*
+
+1. Async Factories
+
+These tests check how lazy handles factories returning promises.
+
+*/
+
+describe('Lazy values - Async Factories', () => {
+	it('still runs synchronous factories once', () => {
+		const factory = jest.fn(() => 42)
+		const value = lazy(factory)
+		expect(value()).toBe(42)
+		expect(value()).toBe(42)
+		expect(factory).toHaveBeenCalledTimes(1)
+	})
+
+	it('shares the pending promise between concurrent calls', async () => {
+		const factory = jest.fn(async () => 'loaded')
+		const value = lazy(factory)
+		const [first, second] = await Promise.all([value(), value()])
+
+		expect(first).toBe('loaded')
+		expect(second).toBe('loaded')
+		expect(factory).toHaveBeenCalledTimes(1)
+	})
+
+	it('does not keep rejected promises', async () => {
+		const factory = jest
+			.fn<Promise<string>, []>()
+			.mockRejectedValueOnce(new Error('offline'))
+			.mockResolvedValue('loaded')
+		const value = lazy(factory)
+
+		await expect(value()).rejects.toThrow('offline')
+		await expect(value()).resolves.toBe('loaded')
+		await expect(value()).resolves.toBe('loaded')
+		expect(factory).toHaveBeenCalledTimes(2)
+	})
+
+	it('retries failed factories when asked to', async () => {
+		const factory = jest
+			.fn<Promise<string>, []>()
+			.mockRejectedValueOnce(new Error('offline'))
+			.mockRejectedValueOnce(new Error('offline'))
+			.mockResolvedValue('loaded')
+
+		await expect(lazy(factory, { retries: 2 })()).resolves.toBe('loaded')
+		expect(factory).toHaveBeenCalledTimes(3)
+	})
+})
+
+/*
+
+2. readAsync
+
+These tests check reads through asynchronous values.
+
+*/
+
+describe('Lazy values - readAsync', () => {
+	let vaultStore: VaultStore
+
+	beforeEach(() => {
+		vaultStore = new VaultStore()
+	})
+
+	it('resolves promises at every segment', async () => {
+		await expect(vaultStore.readAsync('getCredentials:username')).resolves.toBe('user1')
+		await expect(vaultStore.readAsync('getCredentials')).resolves.toBeInstanceOf(CredentialStore)
+	})
+
+	it('reads plain values like read', async () => {
+		const store = new Store()
+		store.writeEntries({ profile: { tags: ['a', 'b'] } })
+		await expect(store.readAsync('profile:tags:1')).resolves.toBe('b')
+		await expect(store.readAsync('profile:missing')).resolves.toBeUndefined()
+	})
+
+	it('checks permissions as read does', async () => {
+		await expect(vaultStore.readAsync('getToken')).rejects.toThrow(PermissionDeniedError)
+		await expect(vaultStore.readAsync('getCredentials:password')).rejects.toThrow(
+			expect.objectContaining({ path: 'getCredentials:password', segment: 'password' })
+		)
+	})
+
+	it('keeps the actor across awaited values', async () => {
+		const admin = vaultStore.as({ roles: ['admin'] })
+		await expect(admin.readAsync('getCredentials:pin')).resolves.toBe('1234')
+		await expect(admin.readAsync('getAudit')).resolves.toEqual(['login'])
+		await expect(vaultStore.readAsync('getCredentials:pin')).rejects.toThrow(PermissionDeniedError)
+	})
+
+	it('is required to follow asynchronous values', () => {
+		expect(() => vaultStore.read('getCredentials:username')).toThrow(AsyncValueError)
+		expect(() => vaultStore.write('getCredentials:username', 'user2')).toThrow(AsyncValueError)
+		expect(vaultStore.allowedToRead('getCredentials:username')).toBe(false)
+	})
+
+	it('is recorded in the audit log once settled', async () => {
+		const sink = new MemoryAuditSink()
+		vaultStore.attachAudit(sink)
+		await vaultStore.as({ id: 'auditor' }).readAsync('getCredentials:username')
+		await expect(vaultStore.readAsync('getCredentials:password')).rejects.toThrow()
+
+		expect(sink.query()).toEqual([
+			expect.objectContaining({
+				path: 'getCredentials:username',
+				outcome: 'allowed',
+				actor: { id: 'auditor' },
+			}),
+			expect.objectContaining({ path: 'getCredentials:password', outcome: 'denied' }),
+		])
+	})
+})
+
+/*
+
+3. Invalidation and TTL
+
+These tests check when lazy values compute their result again.
+
+*/
+
+describe('Lazy values - Invalidation and TTL', () => {
+	afterEach(() => {
+		jest.restoreAllMocks()
+	})
+
+	it('computes again after invalidate', () => {
+		let count = 0
+		const value = lazy(() => ++count)
+		expect(value()).toBe(1)
+		value.invalidate()
+		expect(value()).toBe(2)
+	})
+
+	it('computes again once the TTL has passed', () => {
+		const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+		let count = 0
+		const value = lazy(() => ++count, { ttl: 500 })
+
+		expect(value()).toBe(1)
+		now.mockReturnValue(1499)
+		expect(value()).toBe(1)
+		now.mockReturnValue(1500)
+		expect(value()).toBe(2)
+	})
+
+	it('counts cache hits and misses', () => {
+		const value = lazy(() => 'value')
+		value()
+		value()
+		value.invalidate()
+		value()
+		expect(value.stats()).toEqual({ hits: 1, misses: 2 })
+	})
+})
+
+/*
+
+4. Store Caches
+
+These tests check invalidating and inspecting the cached values of a store.
+
+*/
+
+describe('Lazy values - Store Caches', () => {
+	it('refreshes a computed substore at a path', () => {
+		const adminStore = new AdminStore(new UserStore())
+		const credentials = adminStore.read('getCredentials')
+		expect(adminStore.read('getCredentials')).toBe(credentials)
+
+		adminStore.invalidate('getCredentials:username')
+		expect(adminStore.read('getCredentials')).not.toBe(credentials)
+		expect(adminStore.read('getCredentials:username')).toBe('user1')
+	})
+
+	it('invalidates every lazy value below a path', () => {
+		const store = new Store()
+		const first = lazy(() => 1)
+		const second = lazy(() => 2)
+		store.write('settings:first', first)
+		store.write('settings:nested:second', second)
+		const other = lazy(() => 3)
+		store.write('other', other)
+		for (const path of ['settings:first', 'settings:nested:second', 'other']) store.read(path)
+
+		store.invalidate('settings')
+		for (const path of ['settings:first', 'settings:nested:second', 'other']) store.read(path)
+		expect(first.stats()).toEqual({ hits: 0, misses: 2 })
+		expect(other.stats()).toEqual({ hits: 1, misses: 1 })
+		expect(store.cacheStats()).toEqual({ hits: 1, misses: 5 })
+	})
+
+	it('sees changes made to class fields after they are read', () => {
+		const userStore = new UserStore()
+		expect(userStore.read('name')).toBe('John Doe')
+		userStore.name = 'Jane Doe'
+		expect(userStore.read('name')).toBe('Jane Doe')
+
+		userStore.write('name', 'Jim Doe')
+		expect(userStore.read('name')).toBe('Jim Doe')
+	})
+
+	it('rejects bad paths', () => {
+		expect(() => new Store().invalidate('a::b')).toThrow()
+	})
+})
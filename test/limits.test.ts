@@ -0,0 +1,139 @@
+import { LimitExceededError } from '../src/errors'
+import { defineLimits } from '../src/limits'
+import { Store } from '../src/store'
+
+/*
+
+1. Path Depth and Key Counts
+
+These tests check that writes adding too deep paths or too many keys are rejected.
+
+*/
+
+describe('Limits - Path Depth and Key Counts', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+	})
+
+	it('rejects paths and values nested too deep', () => {
+		defineLimits(store, { maxDepth: 3 })
+		store.write('a:b:c', 'value')
+		expect(() => store.write('a:b:c:d', 'value')).toThrow(LimitExceededError)
+		expect(() => store.write('x', { y: { z: { deep: true } } })).toThrow(
+			expect.objectContaining({ limit: 'maxDepth', max: 3, actual: 4, segment: 'x' })
+		)
+		expect(store.has('x')).toBe(false)
+	})
+
+	it('rejects stores and objects holding too many keys', () => {
+		defineLimits(store, { maxKeys: 2 })
+		store.writeEntries({ a: 1, b: 2 })
+		store.write('a', 3)
+		expect(() => store.write('c', 3)).toThrow(
+			'Cannot write "c" on Store: maxKeys of 2 is exceeded (3)'
+		)
+		expect(() => store.write('nested', { x: 1, y: 2, z: 3 })).toThrow(LimitExceededError)
+	})
+
+	it('rejects subtrees holding too many keys in total', () => {
+		defineLimits(store, { maxTotalKeys: 4 })
+		store.write('profile', { name: 'John', tags: ['a'] })
+		expect(() => store.write('profile:age', 42)).toThrow(
+			expect.objectContaining({ limit: 'maxTotalKeys', max: 4, actual: 5 })
+		)
+		store.write('profile:tags', [])
+		store.write('profile:age', 42)
+		expect(store.read('profile:age')).toBe(42)
+	})
+
+	it('applies to nested stores written directly', () => {
+		defineLimits(store, { maxKeys: 2 })
+		store.write('profile', { name: 'John', age: 42 })
+		const profile = store.read('profile') as Store
+		expect(() => profile.write('email', 'john@example.com')).toThrow(
+			expect.objectContaining({ path: 'email', storeName: 'Store', limit: 'maxKeys' })
+		)
+		expect(() => store.write('profile:email', 'john@example.com')).toThrow(
+			expect.objectContaining({ path: 'profile:email' })
+		)
+	})
+})
+
+/*
+
+2. Value Sizes
+
+These tests check that strings and arrays longer than allowed are rejected.
+
+*/
+
+describe('Limits - Value Sizes', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+		defineLimits(store, { maxStringLength: 5, maxArrayLength: 2 })
+	})
+
+	it('rejects strings that are too long', () => {
+		store.write('name', 'John')
+		expect(() => store.write('name', 'Johnny')).toThrow(
+			expect.objectContaining({ limit: 'maxStringLength', actual: 6 })
+		)
+		expect(() => store.write('user', { bio: 'Too long' })).toThrow(LimitExceededError)
+		expect(store.read('name')).toBe('John')
+	})
+
+	it('rejects arrays that are too long, including those grown item by item', () => {
+		store.write('tags', ['a', 'b'])
+		expect(() => store.write('list', [1, 2, 3])).toThrow(LimitExceededError)
+		expect(() => store.write('tags:2', 'c')).toThrow(
+			expect.objectContaining({ limit: 'maxArrayLength', max: 2, actual: 3 })
+		)
+		expect(store.read('tags')).toEqual(['a', 'b'])
+	})
+})
+
+/*
+
+3. Configuration and Usage
+
+These tests check where limits are declared and how their usage is reported.
+
+*/
+
+describe('Limits - Configuration and Usage', () => {
+	class CommentStore extends Store {}
+	defineLimits(CommentStore, { maxKeys: 2, maxStringLength: 10 })
+
+	it('applies class limits, overridden by instance limits', () => {
+		const commentStore = new CommentStore()
+		defineLimits(commentStore, { maxKeys: 3 })
+		commentStore.writeEntries({ a: 'one', b: 'two', c: 'three' })
+		expect(() => commentStore.write('d', 'four')).toThrow(LimitExceededError)
+		expect(() => commentStore.write('a', 'far too long')).toThrow(LimitExceededError)
+		expect(() => new CommentStore().writeEntries({ a: 1, b: 2, c: 3 })).toThrow(LimitExceededError)
+	})
+
+	it('leaves no partial writeEntries behind', () => {
+		const commentStore = new CommentStore()
+		expect(() => commentStore.writeEntries({ a: 'short', b: 'far too long' })).toThrow(
+			LimitExceededError
+		)
+		expect(commentStore.keys()).toEqual([])
+	})
+
+	it('reports the current usage against each limit', () => {
+		const commentStore = new CommentStore()
+		commentStore.writeEntries({ title: 'Hello', replies: { list: ['a', 'bb'] } })
+		expect(commentStore.usage()).toEqual({
+			maxDepth: { used: 3, max: undefined },
+			maxKeys: { used: 2, max: 2 },
+			maxTotalKeys: { used: 5, max: undefined },
+			maxStringLength: { used: 5, max: 10 },
+			maxArrayLength: { used: 2, max: undefined },
+		})
+	})
+})
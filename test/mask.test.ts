@@ -0,0 +1,140 @@
+import { combinePermissions } from '../src/actor'
+import { AdminStore } from '../src/adminStore'
+import { defineMask, MASK_PLACEHOLDER, Mask, showLast } from '../src/mask'
+import { definePathRule } from '../src/rules'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Masked Fields
+
+These tests check that "m" keys can be listed but only read through their mask.
+
+*/
+
+describe('Masking - Masked Fields', () => {
+	class PaymentStore extends Store {
+		@Restrict('m')
+		public secret = 'hunter2'
+
+		@Mask(showLast(4))
+		@Restrict({ roles: { billing: 'r' }, default: 'm' })
+		public card = '4111111111111111'
+
+		public holder = 'John Doe'
+	}
+
+	let paymentStore: PaymentStore
+
+	beforeEach(() => {
+		paymentStore = new PaymentStore()
+	})
+
+	it('lists masked keys and finds them', () => {
+		expect(paymentStore.keys()).toEqual(['secret', 'card', 'holder'])
+		expect(paymentStore.has('secret')).toBe(true)
+		expect(paymentStore.allowedToRead('secret')).toBe(true)
+		expect(paymentStore.isMasked('secret')).toBe(true)
+		expect(paymentStore.isMasked('holder')).toBe(false)
+	})
+
+	it('reads the placeholder or the output of the mask', () => {
+		expect(paymentStore.read('secret')).toBe(MASK_PLACEHOLDER)
+		expect(paymentStore.read('card')).toBe('****1111')
+		expect(paymentStore.read('holder')).toBe('John Doe')
+		expect(paymentStore.entries()).toMatchObject({
+			secret: MASK_PLACEHOLDER,
+			card: '****1111',
+			holder: 'John Doe',
+		})
+	})
+
+	it('masks exported values', () => {
+		expect(paymentStore.snapshot()).toEqual({
+			secret: MASK_PLACEHOLDER,
+			card: '****1111',
+			holder: 'John Doe',
+		})
+	})
+
+	it('reads the full value for actors with a higher privilege', () => {
+		const billing = paymentStore.as({ roles: ['billing'] })
+		expect(billing.isMasked('card')).toBe(false)
+		expect(billing.read('card')).toBe('4111111111111111')
+		expect(paymentStore.as({ roles: ['support'] }).read('card')).toBe('****1111')
+	})
+
+	it('does not allow writing masked keys', () => {
+		expect(paymentStore.allowedToWrite('secret')).toBe(false)
+		expect(() => paymentStore.write('secret', 'changed')).toThrow(
+			expect.objectContaining({ operation: 'write', permission: 'm' })
+		)
+	})
+
+	it('keeps the real value on the field', () => {
+		expect(paymentStore.card).toBe('4111111111111111')
+	})
+})
+
+/*
+
+2. Path Rules
+
+These tests check masking applied through path rules on nested values.
+
+*/
+
+describe('Masking - Path Rules', () => {
+	it('masks the credentials username for non-admin actors', async () => {
+		const adminStore = new AdminStore(new UserStore())
+		definePathRule(adminStore, 'getCredentials:username', { roles: { admin: 'r' }, default: 'm' })
+
+		expect(adminStore.keys('getCredentials')).toEqual(['username'])
+		expect(adminStore.read('getCredentials:username')).toBe(MASK_PLACEHOLDER)
+		await expect(adminStore.readAsync('getCredentials:username')).resolves.toBe(MASK_PLACEHOLDER)
+		expect(adminStore.as({ roles: ['admin'] }).read('getCredentials:username')).toBe('user1')
+	})
+
+	it('masks user emails in listings with a custom mask', () => {
+		const directoryStore = new Store()
+		directoryStore.writeEntries({
+			users: {
+				john: { name: 'John', email: 'john@example.com' },
+				jane: { name: 'Jane', email: 'jane@example.com' },
+			},
+		})
+		definePathRule(directoryStore, 'users:*:email', 'm')
+		defineMask(directoryStore, 'users:*:email', (value) =>
+			typeof value === 'string' ? value.replace(/^[^@]+/, '***') : MASK_PLACEHOLDER
+		)
+
+		expect(directoryStore.read('users:john:email')).toBe('***@example.com')
+		expect(directoryStore.read('users:john:name')).toBe('John')
+		expect(directoryStore.snapshot()).toEqual({
+			users: {
+				john: { name: 'John', email: '***@example.com' },
+				jane: { name: 'Jane', email: '***@example.com' },
+			},
+		})
+	})
+})
+
+/*
+
+3. Combined Roles
+
+These tests check how masked reads combine with other permissions across roles.
+
+*/
+
+describe('Masking - Combined Roles', () => {
+	it.each([
+		[['m', 'r'], 'r'],
+		[['m', 'none'], 'm'],
+		[['t', 'm'], 'm'],
+		[['m', 'w'], 'w'],
+	] as const)('combines %j into %j', (permissions, expected) => {
+		expect(combinePermissions([...permissions])).toBe(expected)
+	})
+})
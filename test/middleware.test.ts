@@ -0,0 +1,226 @@
+import { OperationVetoedError } from '../src/errors'
+import { lazy } from '../src/lazy'
+import { type MiddlewareContext, useMiddleware } from '../src/middleware'
+import { defineSchema } from '../src/schema'
+import { Store } from '../src/store'
+
+/*
+
+1. Transforming Values
+
+These tests check that middleware can change written and read values.
+
+*/
+
+describe('Middleware - Transforming Values', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+	})
+
+	it('normalizes written values', () => {
+		store.use((context, next) =>
+			typeof context.value === 'string' ? next(context.value.trim().toLowerCase()) : next()
+		)
+		store.write('email', '  John@Example.com ')
+		expect(store.read('email')).toBe('john@example.com')
+	})
+
+	it('redacts read values', () => {
+		store.write('card', '4111111111111111')
+		store.use((context, next) => {
+			const value = next()
+			return context.operation === 'read' && typeof value === 'string'
+				? `****${value.slice(-4)}`
+				: value
+		})
+		expect(store.read('card')).toBe('****1111')
+		expect(store.data.get('card')).toBe('4111111111111111')
+	})
+
+	it('normalizes values before they are validated', () => {
+		defineSchema(store, { properties: { age: { type: 'integer' } } })
+		store.use((context, next) =>
+			context.operation === 'write' && typeof context.value === 'string'
+				? next(Number(context.value))
+				: next()
+		)
+		store.write('age', '41')
+		store.writeEntries({ age: '42' })
+		expect(store.read('age')).toBe(42)
+	})
+
+	it('sees writeEntries as a whole and each written key', () => {
+		const seen: string[] = []
+		store.use((context, next) => {
+			seen.push(`${context.operation} ${context.path}`)
+			return next()
+		})
+		store.writeEntries({ a: 1, b: 2 })
+		expect(seen).toEqual(['writeEntries ', 'write a', 'write b'])
+	})
+
+	it('runs in registration order, class middleware first', () => {
+		class LoggedStore extends Store {}
+		const calls: string[] = []
+		useMiddleware(LoggedStore, (_, next) => {
+			calls.push('class')
+			return next()
+		})
+		const loggedStore = new LoggedStore()
+		loggedStore.use((_, next) => {
+			calls.push('instance')
+			return next()
+		})
+
+		loggedStore.write('key', 'value')
+		expect(calls).toEqual(['class', 'instance'])
+	})
+})
+
+/*
+
+2. Vetoes
+
+These tests check that middleware can turn operations down.
+
+*/
+
+describe('Middleware - Vetoes', () => {
+	it('rejects an operation with the given reason', () => {
+		const store = new Store()
+		store.write('status', 'active')
+		store.use((context, next) => {
+			if (context.operation === 'write' && context.path === 'status') {
+				context.veto('status is managed by the server')
+			}
+			return next()
+		})
+
+		expect(() => store.write('status', 'deleted')).toThrow(OperationVetoedError)
+		expect(() => store.write('status', 'deleted')).toThrow(
+			'Cannot write "status" on Store: status is managed by the server'
+		)
+		expect(store.read('status')).toBe('active')
+	})
+
+	it('leaves no partial writeEntries behind', () => {
+		const store = new Store()
+		store.use((context, next) => {
+			if (context.path === 'b') context.veto('not allowed')
+			return next()
+		})
+		expect(() => store.writeEntries({ a: 1, b: 2 })).toThrow(OperationVetoedError)
+		expect(store.has('a')).toBe(false)
+	})
+
+	it('rejects a read before computing its lazy value', () => {
+		const store = new Store()
+		const factory = jest.fn(() => ({ token: 'secret' }))
+		store.write('session', lazy(factory))
+		store.use((context, next) =>
+			context.operation === 'read' ? context.veto('sessions are private') : next()
+		)
+
+		expect(() => store.read('session')).toThrow(OperationVetoedError)
+		expect(() => store.read('session:token')).toThrow(OperationVetoedError)
+		expect(factory).not.toHaveBeenCalled()
+	})
+
+	it('stops applying once removed', () => {
+		const store = new Store()
+		const remove = store.use((context) => context.veto('read-only'))
+		expect(() => store.write('key', 'value')).toThrow(OperationVetoedError)
+		remove()
+		store.write('key', 'value')
+		expect(store.read('key')).toBe('value')
+	})
+})
+
+/*
+
+3. Nested Stores
+
+These tests check which middleware runs for paths reaching into nested stores.
+
+*/
+
+describe('Middleware - Nested Stores', () => {
+	let store: Store
+	let contexts: MiddlewareContext[]
+
+	beforeEach(() => {
+		store = new Store()
+		store.write('profile:name', 'John')
+		contexts = []
+	})
+
+	it('leaves nested stores alone by default', () => {
+		store.use((context, next) => {
+			contexts.push(context)
+			return next()
+		})
+		store.write('profile:name', 'Jane')
+		expect(store.read('profile:name')).toBe('Jane')
+		expect(contexts).toEqual([])
+	})
+
+	it('applies to nested stores reached through colon paths when asked to', () => {
+		store.use(
+			(context, next) => {
+				contexts.push(context)
+				return next()
+			},
+			{ nested: true }
+		)
+		const profile = store.read('profile') as Store
+		store.write('profile:name', 'Jane')
+
+		expect(contexts).toEqual([
+			expect.objectContaining({ operation: 'read', path: 'profile' }),
+			expect.objectContaining({ operation: 'write', path: 'profile:name', store: profile }),
+		])
+
+		profile.write('name', 'Joe')
+		expect(contexts).toHaveLength(2)
+	})
+
+	it('applies to stores created from written objects', () => {
+		store.use(
+			(context, next) => (typeof context.value === 'string' ? next(context.value.trim()) : next()),
+			{ nested: true }
+		)
+		store.write('address', { city: '  Paris ' })
+		store.write('profile:name', ' Jane ')
+		expect(store.read('address:city')).toBe('Paris')
+		expect(store.read('profile:name')).toBe('Jane')
+	})
+
+	it('runs once for reads of lazy nested stores', () => {
+		const session = new Store()
+		session.write('token', 'secret')
+		store.write(
+			'session',
+			lazy(() => session)
+		)
+		store.use(
+			(context, next) => {
+				contexts.push(context)
+				return next()
+			},
+			{ nested: true }
+		)
+
+		expect(store.read('session:token')).toBe('secret')
+		expect(contexts).toEqual([expect.objectContaining({ path: 'session:token', store })])
+	})
+
+	it('applies to asynchronous reads', async () => {
+		store.write('profile:token', () => Promise.resolve('secret'))
+		store.use((context, next) => (context.path === 'profile:token' ? '[redacted]' : next()), {
+			nested: true,
+		})
+		await expect(store.readAsync('profile:token')).resolves.toBe('[redacted]')
+	})
+})
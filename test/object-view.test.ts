@@ -0,0 +1,154 @@
+import { AdminStore } from '../src/adminStore'
+import { AsyncValueError, PermissionDeniedError } from '../src/errors'
+import { lazy } from '../src/lazy'
+import { definePathRule } from '../src/rules'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Property Access
+
+These tests check that gets and sets on the view go through read and write.
+
+*/
+
+describe('Object views - Property Access', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+		store.writeEntries({ user: { profile: { name: 'John' } }, count: 1 })
+	})
+
+	it('reads values and nested stores as nested views', () => {
+		const view = store.asObject()
+		expect(view.count).toBe(1)
+		expect(view.user.profile.name).toBe('John')
+	})
+
+	it('writes nested properties through the store', () => {
+		const view = store.asObject()
+		const listener = jest.fn()
+		store.subscribe('user:profile:name', listener)
+
+		view.user.profile.name = 'Jane'
+
+		expect(store.read('user:profile:name')).toBe('Jane')
+		expect(listener).toHaveBeenCalledTimes(1)
+	})
+
+	it('resolves lazy values', () => {
+		store.write(
+			'greeting',
+			lazy(() => 'hello')
+		)
+		expect(store.asObject().greeting).toBe('hello')
+	})
+
+	it('throws for asynchronous values like read does', () => {
+		store.write('token', () => Promise.resolve('secret'))
+		expect(() => store.asObject().token).toThrow(AsyncValueError)
+	})
+
+	it('writes the store behind an assigned view', () => {
+		const view = store.asObject()
+		view.copy = view.user
+		expect(store.read('copy')).toBe(store.read('user'))
+	})
+})
+
+/*
+
+2. Object Operations
+
+These tests check in, Object.keys, delete and spreading on views.
+
+*/
+
+describe('Object views - Object Operations', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+		store.writeEntries({ name: 'John', 'a:b': 'escaped', profile: { email: 'john@example.com' } })
+	})
+
+	it('supports in and Object.keys', () => {
+		const view = store.asObject()
+		expect('name' in view).toBe(true)
+		expect('missing' in view).toBe(false)
+		expect(Object.keys(view)).toEqual(['name', 'a:b', 'profile'])
+		expect(Object.keys(view.profile)).toEqual(['email'])
+	})
+
+	it('keeps keys containing the separator literal', () => {
+		expect(store.asObject()['a:b']).toBe('escaped')
+	})
+
+	it('deletes keys through the store', () => {
+		const view = store.asObject()
+		delete view.name
+		expect(store.has('name')).toBe(false)
+	})
+
+	it('spreads into plain objects', () => {
+		const { profile, ...rest } = store.asObject()
+		expect(rest).toEqual({ name: 'John', 'a:b': 'escaped' })
+		expect({ ...profile }).toEqual({ email: 'john@example.com' })
+	})
+})
+
+/*
+
+3. Permissions
+
+These tests check that views enforce the same permissions as the store API.
+
+*/
+
+describe('Object views - Permissions', () => {
+	it('throws the store errors for denied access', () => {
+		const view = new AdminStore(new UserStore()).asObject()
+		expect(view.user.name).toBe('John Doe')
+		expect(() => view.name).toThrow(PermissionDeniedError)
+		expect(() => {
+			view.user = new UserStore()
+		}).toThrow(PermissionDeniedError)
+		expect(() => 'name' in view).toThrow(PermissionDeniedError)
+	})
+
+	it('can be awaited and stringified on stores denying unknown keys', async () => {
+		const view = new AdminStore(new UserStore()).asObject()
+		expect(view.constructor).toBeUndefined()
+		await expect(Promise.resolve(view)).resolves.toBe(view)
+		expect(JSON.parse(JSON.stringify(view))).toEqual({
+			user: { name: 'John Doe' },
+			getCredentials: { username: 'user1' },
+		})
+	})
+
+	it('applies path rules of the root store to nested views', () => {
+		const store = new Store()
+		store.writeEntries({ profile: { name: 'John', email: 'john@example.com' } })
+		definePathRule(store, 'profile:email', 'none')
+
+		const profile = store.asObject().profile
+		expect(Object.keys(profile)).toEqual(['name'])
+		expect(() => profile.email).toThrow(PermissionDeniedError)
+	})
+
+	it('acts as the actor the view was created for', () => {
+		class AccountStore extends Store {
+			@Restrict({ roles: { admin: 'rw' } })
+			public pw = 'secret'
+		}
+		const accountStore = new AccountStore()
+		const view = accountStore.as({ roles: ['admin'] }).asObject()
+
+		expect(view.pw).toBe('secret')
+		view.pw = 'changed'
+		expect(Object.keys(view)).toEqual(['pw'])
+		expect(() => accountStore.asObject().pw).toThrow(PermissionDeniedError)
+	})
+})
@@ -0,0 +1,158 @@
+import { AdminStore } from '../src/adminStore'
+import { PermissionDeniedError } from '../src/errors'
+import { lazy } from '../src/lazy'
+import { definePathRule } from '../src/rules'
+import { Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Delete
+
+These tests check removing keys from stores and values.
+
+*/
+
+describe('Store operations - Delete', () => {
+	it('removes entries of the data map', () => {
+		const store = new Store()
+		store.write('name', 'John')
+		expect(store.delete('name')).toBe(true)
+		expect(store.has('name')).toBe(false)
+		expect(store.data.has('name')).toBe(false)
+		expect(store.delete('name')).toBe(false)
+	})
+
+	it('removes class fields for good', () => {
+		const userStore = new UserStore()
+		userStore.delete('name')
+		expect(userStore.read('name')).toBeUndefined()
+		expect(userStore.keys()).toEqual([])
+		expect(userStore.snapshot()).toEqual({})
+	})
+
+	it('restores the field when the transaction fails', () => {
+		const userStore = new UserStore()
+		expect(() =>
+			userStore.transaction(() => {
+				userStore.delete('name')
+				throw new Error('abort')
+			})
+		).toThrow('abort')
+		expect(userStore.read('name')).toBe('John Doe')
+	})
+
+	it('works across nested stores and values', () => {
+		const store = new Store()
+		store.writeEntries({ profile: { name: 'John', age: 42 }, items: [{ id: 1 }, { id: 2 }, 'c'] })
+
+		expect(store.delete('profile:age')).toBe(true)
+		expect(store.delete('items:0:id')).toBe(true)
+		expect(store.delete('items:2')).toBe(true)
+		expect(store.delete('items:5')).toBe(false)
+		expect(store.snapshot()).toEqual({ profile: { name: 'John' }, items: [{}, { id: 2 }] })
+	})
+
+	it('follows write permissions', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect(() => adminStore.delete('user')).toThrow(PermissionDeniedError)
+		expect(() => adminStore.delete('name')).toThrow(PermissionDeniedError)
+		expect(adminStore.delete('user:name')).toBe(true)
+	})
+
+	it('notifies subscribers and can be undone', () => {
+		const store = new Store()
+		store.enableHistory()
+		store.write('profile:name', 'John')
+		const listener = jest.fn()
+		store.subscribe('profile', listener)
+
+		store.delete('profile:name')
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({ path: 'profile:name', oldValue: 'John', newValue: undefined })
+		)
+		store.undo()
+		expect(store.read('profile:name')).toBe('John')
+		store.undo()
+		expect(store.has('profile:name')).toBe(false)
+	})
+})
+
+/*
+
+2. Has and Keys
+
+These tests check looking up keys without reading their values.
+
+*/
+
+describe('Store operations - Has and Keys', () => {
+	it('checks for a value without resolving lazy values', () => {
+		const factory = jest.fn(() => 'value')
+		const store = new Store()
+		store.write('cached', lazy(factory))
+		store.write('empty', undefined)
+
+		expect(store.has('cached')).toBe(true)
+		expect(store.has('empty')).toBe(false)
+		expect(store.has('missing:key')).toBe(false)
+		expect(factory).not.toHaveBeenCalled()
+	})
+
+	it('ignores methods and internals of the store', () => {
+		const store = new Store()
+		expect(store.has('read')).toBe(false)
+		expect(store.has('data')).toBe(false)
+		expect(store.read('keys')).toBeUndefined()
+	})
+
+	it('follows read permissions', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect(adminStore.has('user:name')).toBe(true)
+		expect(() => adminStore.has('name')).toThrow(PermissionDeniedError)
+		expect(adminStore.keys()).toEqual(['user', 'getCredentials'])
+		expect(adminStore.keys('user')).toEqual(['name'])
+	})
+
+	it('lists keys of nested stores and values', () => {
+		const store = new Store()
+		store.writeEntries({ profile: { name: 'John', tags: ['a', 'b'] } })
+		expect(store.keys('profile')).toEqual(['name', 'tags'])
+		expect(store.keys('profile:tags')).toEqual(['0', '1'])
+		expect(store.keys('profile:name')).toEqual([])
+	})
+
+	it('hides keys denied by path rules of a parent', () => {
+		const store = new Store()
+		store.writeEntries({ profile: { name: 'John', secret: 'hidden' } })
+		definePathRule(store, 'profile:secret', 'none')
+		expect(store.keys('profile')).toEqual(['name'])
+	})
+})
+
+/*
+
+3. Clear
+
+These tests check emptying whole stores and values.
+
+*/
+
+describe('Store operations - Clear', () => {
+	it('empties nested stores and values', () => {
+		const store = new Store()
+		store.writeEntries({ profile: { name: 'John', tags: ['a'] }, theme: 'dark' })
+		store.clear('profile:tags')
+		expect(store.read('profile:tags')).toEqual([])
+		store.clear('profile')
+		expect(store.snapshot()).toEqual({ profile: {}, theme: 'dark' })
+		store.clear()
+		expect(store.keys()).toEqual([])
+	})
+
+	it('leaves everything in place when a key cannot be deleted', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect(() => adminStore.clear()).toThrow(PermissionDeniedError)
+		expect(adminStore.keys()).toEqual(['user', 'getCredentials'])
+	})
+})
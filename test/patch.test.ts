@@ -0,0 +1,183 @@
+import { AdminStore } from '../src/adminStore'
+import { defineEncryption, Encrypted } from '../src/encryption'
+import {
+	InvalidPathError,
+	PatchTestError,
+	PathSyntaxError,
+	PermissionDeniedError,
+} from '../src/errors'
+import { formatPointer, parsePointer } from '../src/patch'
+import { Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Diff
+
+These tests check the JSON Patch produced between two store trees.
+
+*/
+
+describe('Store patches - Diff', () => {
+	it('returns no operations for equal trees', () => {
+		const store = new Store()
+		const other = new Store()
+		store.writeEntries({ profile: { name: 'John', tags: ['a'] } })
+		other.writeEntries({ profile: { name: 'John', tags: ['a'] } })
+		expect(store.diff(other)).toEqual([])
+	})
+
+	it('walks nested stores, arrays and primitives', () => {
+		const store = new Store()
+		const other = new Store()
+		store.writeEntries({
+			profile: { name: 'John', age: 42 },
+			tags: ['a', 'b', 'c'],
+			theme: 'light',
+		})
+		other.writeEntries({ profile: { name: 'Jane', city: 'Paris' }, tags: ['a', 'x'], theme: 1 })
+
+		expect(store.diff(other)).toEqual([
+			{ op: 'remove', path: '/profile/age' },
+			{ op: 'replace', path: '/profile/name', value: 'Jane' },
+			{ op: 'add', path: '/profile/city', value: 'Paris' },
+			{ op: 'replace', path: '/tags/1', value: 'x' },
+			{ op: 'remove', path: '/tags/2' },
+			{ op: 'replace', path: '/theme', value: 1 },
+		])
+	})
+
+	it('escapes keys in pointers', () => {
+		expect(formatPointer(['a/b', 'c~d', 'e:f'])).toBe('/a~1b/c~0d/e:f')
+		expect(parsePointer('/a~1b/c~0d/e:f', 'Store')).toEqual(['a/b', 'c~d', 'e:f'])
+		expect(() => parsePointer('a/b', 'Store')).toThrow(PathSyntaxError)
+	})
+
+	it('leaves out keys that cannot be read', () => {
+		const adminStore = new AdminStore(new UserStore())
+		const other = new Store()
+		other.writeEntries({ user: { name: 'Jane' } })
+		expect(adminStore.diff(other)).toEqual([{ op: 'replace', path: '/user/name', value: 'Jane' }])
+	})
+
+	it('turns one store into the other when applied', () => {
+		const store = new Store()
+		const other = new Store()
+		store.writeEntries({ profile: { name: 'John', tags: ['a', 'b'] }, old: true })
+		other.writeEntries({ profile: { name: 'Jane', tags: ['b'], age: 3 }, 'a:b': { c: [1] } })
+
+		store.applyPatch(store.diff(other))
+		expect(store.snapshot()).toEqual(other.snapshot())
+	})
+})
+
+/*
+
+2. Apply Patch
+
+These tests check each operation and how failures are handled.
+
+*/
+
+describe('Store patches - Apply', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+		store.writeEntries({ profile: { name: 'John' }, tags: ['a', 'b'], meta: { list: [{ id: 1 }] } })
+	})
+
+	it('adds values to stores and arrays', () => {
+		store.applyPatch([
+			{ op: 'add', path: '/profile/age', value: 42 },
+			{ op: 'add', path: '/tags/0', value: 'first' },
+			{ op: 'add', path: '/tags/-', value: 'last' },
+		])
+		expect(store.read('profile:age')).toBe(42)
+		expect(store.read('tags')).toEqual(['first', 'a', 'b', 'last'])
+	})
+
+	it('removes and replaces existing values', () => {
+		store.applyPatch([
+			{ op: 'remove', path: '/tags/0' },
+			{ op: 'replace', path: '/profile/name', value: 'Jane' },
+			{ op: 'remove', path: '/meta/list/0/id' },
+		])
+		expect(store.read('tags')).toEqual(['b'])
+		expect(store.read('profile:name')).toBe('Jane')
+		expect(store.read('meta:list')).toEqual([{}])
+		expect(() => store.applyPatch([{ op: 'replace', path: '/missing', value: 1 }])).toThrow(
+			InvalidPathError
+		)
+	})
+
+	it('moves and copies values', () => {
+		store.applyPatch([
+			{ op: 'copy', from: '/profile', path: '/backup' },
+			{ op: 'move', from: '/tags/1', path: '/profile/tag' },
+		])
+		expect(store.read('backup:name')).toBe('John')
+		expect(store.read('backup')).not.toBe(store.read('profile'))
+		expect(store.read('tags')).toEqual(['a'])
+		expect(store.read('profile:tag')).toBe('b')
+		expect(() => store.applyPatch([{ op: 'move', from: '/meta', path: '/meta/inner' }])).toThrow(
+			'cannot be moved into one of its children'
+		)
+	})
+
+	it('compares, applies and copies the opened values of encrypted keys', () => {
+		class SecretStore extends Store {
+			@Encrypted()
+			public secret = 'hunter2'
+			declare vault?: Store
+			declare plain?: string
+			declare backup?: Store
+		}
+		const secretStore = new SecretStore()
+		expect(secretStore.diff(new SecretStore())).toEqual([])
+
+		const other = new SecretStore()
+		other.write('secret', 'changed')
+		const operations = secretStore.diff(other)
+		expect(operations).toEqual([{ op: 'replace', path: '/secret', value: 'changed' }])
+		secretStore.applyPatch(operations)
+		expect(secretStore.read('secret')).toBe('changed')
+
+		defineEncryption(secretStore, 'vault:*')
+		secretStore.write('vault:pin', '1234')
+		secretStore.applyPatch([
+			{ op: 'copy', from: '/secret', path: '/plain' },
+			{ op: 'copy', from: '/vault', path: '/backup' },
+		])
+		expect(secretStore.read('plain')).toBe('changed')
+		expect(secretStore.read('backup:pin')).toBe('1234')
+	})
+
+	it('rolls back every operation when a test fails', () => {
+		const patch = () =>
+			store.applyPatch([
+				{ op: 'replace', path: '/profile/name', value: 'Jane' },
+				{ op: 'test', path: '/tags', value: ['a', 'c'] },
+			])
+		expect(patch).toThrow(PatchTestError)
+		expect(store.read('profile:name')).toBe('John')
+
+		store.applyPatch([{ op: 'test', path: '/profile', value: { name: 'John' } }])
+	})
+
+	it('goes through write permissions', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect(() => adminStore.applyPatch([{ op: 'add', path: '/name', value: 'Jane' }])).toThrow(
+			PermissionDeniedError
+		)
+		expect(() => adminStore.applyPatch([{ op: 'remove', path: '/user' }])).toThrow(
+			PermissionDeniedError
+		)
+		adminStore.applyPatch([{ op: 'replace', path: '/user/name', value: 'Jane' }])
+		expect(adminStore.read('user:name')).toBe('Jane')
+	})
+
+	it('rejects patching the root', () => {
+		expect(() => store.applyPatch([{ op: 'add', path: '', value: {} }])).toThrow(InvalidPathError)
+	})
+})
@@ -0,0 +1,194 @@
+import { AdminStore } from '../src/adminStore'
+import { InvalidPathError, PathSyntaxError } from '../src/errors'
+import { escapeKey, formatPath, GLOBSTAR, type PathSegment, parsePath, WILDCARD } from '../src/path'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+const context = { operation: 'read' as const, storeName: 'Store' }
+
+/*
+
+1. Path Parsing
+
+These tests check the path grammar: separators, escapes and wildcards.
+
+*/
+
+describe('Store paths - Parsing', () => {
+	it('splits segments on the separator', () => {
+		expect(parsePath('user:profile:name', context)).toEqual(['user', 'profile', 'name'])
+	})
+
+	it('unescapes separators, escapes and stars', () => {
+		expect(parsePath('a\\:b:c\\\\d:\\*', context)).toEqual(['a:b', 'c\\d', '*'])
+	})
+
+	it('parses a lone star as a wildcard', () => {
+		expect(parsePath('users:*:email', context)).toEqual(['users', WILDCARD, 'email'])
+		expect(parsePath('settings:**', context)).toEqual(['settings', GLOBSTAR])
+	})
+
+	it('formats segments back into an escaped path', () => {
+		const segments: PathSegment[] = ['a:b', WILDCARD, '*', 'c\\d']
+		expect(formatPath(segments)).toBe('a\\:b:*:\\*:c\\\\d')
+		expect(parsePath(formatPath(segments), context)).toEqual(segments)
+	})
+
+	it.each([
+		['', 'empty segment at position 0'],
+		['a::b', 'empty segment at position 2'],
+		['a:', 'empty segment at position 2'],
+		['a\\', 'unterminated escape at position 1'],
+		['a:b*', '"*" must be a whole segment at position 2'],
+	])('rejects %j with a syntax error', (path, reason) => {
+		expect(() => parsePath(path, context)).toThrow(PathSyntaxError)
+		expect(() => parsePath(path, context)).toThrow(reason)
+	})
+})
+
+/*
+
+2. Escaped Keys
+
+These tests check that keys containing the separator can be addressed.
+
+*/
+
+describe('Store paths - Escaped Keys', () => {
+	it('reads and writes keys containing a colon', () => {
+		const store = new Store()
+		store.write('urn\\:user\\:1:name', 'John')
+		expect(store.read('urn\\:user\\:1:name')).toBe('John')
+		expect(store.read('urn\\:user\\:1')).toBeInstanceOf(Store)
+		expect(store.data.has('urn:user:1')).toBe(true)
+	})
+
+	it('keeps colons in writeEntries keys literal', () => {
+		const store = new Store()
+		store.writeEntries({ 'a:b': 'value' })
+		expect(store.read(escapeKey('a:b'))).toBe('value')
+		expect(store.read('a')).toBeUndefined()
+	})
+})
+
+/*
+
+3. Array Indices
+
+These tests check that numeric segments address array items.
+
+*/
+
+describe('Store paths - Array Indices', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+		store.write('items', [{ name: 'first' }, { name: 'second' }])
+	})
+
+	it('reads items and their fields', () => {
+		expect(store.read('items:1')).toEqual({ name: 'second' })
+		expect(store.read('items:0:name')).toBe('first')
+		expect(store.read('items:5:name')).toBeUndefined()
+	})
+
+	it('writes into items without mutating the stored array', () => {
+		const items = store.read('items')
+		const listener = jest.fn()
+		store.subscribe('items', listener)
+
+		store.write('items:0:name', 'changed')
+		store.write('items:2', { name: 'third' })
+
+		expect(store.read('items:0:name')).toBe('changed')
+		expect(store.read('items:2:name')).toBe('third')
+		expect(items).toEqual([{ name: 'first' }, { name: 'second' }])
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({ path: 'items:0:name', oldValue: 'first', newValue: 'changed' })
+		)
+	})
+
+	it('rejects indices past the end of the array', () => {
+		expect(() => store.write('items:5', 'value')).toThrow(InvalidPathError)
+		expect(() => store.write('items:name', 'value')).toThrow(InvalidPathError)
+	})
+
+	it('needs write access to the key holding the array', () => {
+		class ListStore extends Store {
+			@Restrict('r')
+			public items = ['a', 'b']
+		}
+		const listStore = new ListStore()
+		expect(listStore.read('items:1')).toBe('b')
+		expect(listStore.allowedToWrite('items:1')).toBe(false)
+		expect(() => listStore.write('items:1', 'c')).toThrow(Error)
+	})
+})
+
+/*
+
+4. Wildcards
+
+These tests check multi-reads with wildcard segments.
+
+*/
+
+describe('Store paths - Wildcards', () => {
+	it('returns every matched path with its value', () => {
+		const store = new Store()
+		store.writeEntries({
+			users: { john: { email: 'john@example.com' }, jane: { email: 'jane@example.com' } },
+		})
+
+		expect(store.readAll('users:*:email')).toEqual(
+			new Map([
+				['users:john:email', 'john@example.com'],
+				['users:jane:email', 'jane@example.com'],
+			])
+		)
+	})
+
+	it('matches array items', () => {
+		const store = new Store()
+		store.write('items', [{ id: 1 }, { id: 2 }])
+		expect([...store.readAll('items:*:id').values()]).toEqual([1, 2])
+	})
+
+	it('skips keys that cannot be read', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect([...adminStore.readAll('*').keys()]).toEqual(['user', 'getCredentials'])
+		expect(adminStore.readAll('*:name')).toEqual(new Map([['user:name', 'John Doe']]))
+	})
+
+	it('is rejected by single-value operations', () => {
+		const store = new Store()
+		expect(() => store.read('users:*')).toThrow(InvalidPathError)
+		expect(() => store.write('*', 'value')).toThrow(InvalidPathError)
+		expect(() => store.readAll('users:**')).toThrow(InvalidPathError)
+	})
+})
+
+/*
+
+5. Path Permissions
+
+These tests check that allowedToRead and allowedToWrite follow nested paths.
+
+*/
+
+describe('Store paths - Permissions', () => {
+	it('follows nested stores', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect(adminStore.allowedToRead('user:name')).toBe(true)
+		expect(adminStore.allowedToRead('name:first')).toBe(false)
+
+		const userStore = adminStore.read('user') as Store
+		userStore.defaultPolicy = 'r'
+		expect(adminStore.allowedToWrite('user:other')).toBe(false)
+	})
+
+	it('throws parse errors for bad paths', () => {
+		expect(() => new Store().allowedToRead('a::b')).toThrow(PathSyntaxError)
+	})
+})
@@ -0,0 +1,111 @@
+import { AdminStore } from '../src/adminStore'
+import { definePathRule } from '../src/rules'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Constructor Registry
+
+These tests check that field rules are tied to constructors rather than class names.
+
+*/
+
+describe('Permission registry - Constructors', () => {
+	it('keeps rules of classes sharing a name apart', () => {
+		const makeStore = (permission: 'r' | 'none') => {
+			class SharedStore extends Store {
+				@Restrict(permission)
+				public value = 'secret'
+			}
+			return new SharedStore()
+		}
+		const readable = makeStore('r')
+		const hidden = makeStore('none')
+
+		expect(readable.constructor.name).toBe(hidden.constructor.name)
+		expect(readable.permissionFor('value')).toBe('r')
+		expect(hidden.permissionFor('value')).toBe('none')
+	})
+
+	it('supports anonymous classes', () => {
+		const AnonymousStore = (() => class extends Store {})()
+		Restrict('r')(AnonymousStore.prototype, 'value')
+
+		expect(AnonymousStore.name).toBe('')
+		expect(new AnonymousStore().permissionFor('value')).toBe('r')
+		expect(new Store().permissionFor('value')).toBe('rw')
+	})
+
+	it('inherits rules and lets subclasses override them', () => {
+		class BaseStore extends Store {
+			@Restrict('r')
+			public name = 'base'
+			@Restrict('none')
+			public token = 'token'
+		}
+		class ChildStore extends BaseStore {
+			@Restrict('rw')
+			public override name = 'child'
+		}
+
+		const childStore = new ChildStore()
+		expect(childStore.permissionFor('name')).toBe('rw')
+		expect(childStore.permissionFor('token')).toBe('none')
+		expect(new BaseStore().permissionFor('name')).toBe('r')
+	})
+})
+
+/*
+
+2. Introspection
+
+These tests check Store.describePermissions.
+
+*/
+
+describe('Permission registry - Introspection', () => {
+	it('describes every decorated key of a class', () => {
+		expect(Store.describePermissions(AdminStore)).toEqual({
+			storeName: 'AdminStore',
+			defaultPolicy: 'none',
+			keys: [
+				{ key: 'user', permission: 'r', rule: 'r', declaredBy: 'AdminStore' },
+				{ key: 'name', permission: 'none', rule: 'none', declaredBy: 'AdminStore' },
+				{ key: 'getCredentials', permission: 'rw', rule: 'rw', declaredBy: 'AdminStore' },
+			],
+			pathRules: [],
+		})
+	})
+
+	it('describes instances, inherited keys and path rules', () => {
+		class ProfileStore extends UserStore {
+			@Restrict('r', 'settings:**')
+			public settings?: Store
+		}
+		const profileStore = new ProfileStore()
+		definePathRule(profileStore, 'private:*', 'none')
+
+		expect(Store.describePermissions(profileStore)).toEqual({
+			storeName: 'ProfileStore',
+			defaultPolicy: 'rw',
+			keys: [{ key: 'name', permission: 'rw', rule: 'rw', declaredBy: 'UserStore' }],
+			pathRules: [
+				{ pattern: 'settings:**', rule: 'r', declaredBy: 'ProfileStore' },
+				{ pattern: 'private:*', rule: 'none', declaredBy: 'ProfileStore' },
+			],
+		})
+	})
+
+	it('evaluates role rules for the given actor', () => {
+		class TeamStore extends Store {
+			@Restrict({ roles: { admin: 'rw' }, default: 'r' })
+			public members: string[] = []
+		}
+
+		const [admin] = Store.describePermissions(TeamStore, { roles: ['admin'] }).keys
+		const [guest] = Store.describePermissions(TeamStore).keys
+		expect(admin?.permission).toBe('rw')
+		expect(guest?.permission).toBe('r')
+	})
+})
@@ -0,0 +1,131 @@
+import { PermissionDeniedError } from '../src/errors'
+import { definePathRule } from '../src/rules'
+import { Restrict, Store } from '../src/store'
+
+/*
+
+1. Pattern Rules
+
+These tests check permissions declared on path patterns through Restrict's restrictPath.
+
+*/
+
+describe('Path rules - Pattern Rules', () => {
+	class AccountStore extends Store {
+		@Restrict('none', 'profile:*:email')
+		@Restrict('r', 'settings:**')
+		public profile?: Store
+		declare settings?: Store
+		declare tags?: string[]
+	}
+
+	let accountStore: AccountStore
+
+	beforeEach(() => {
+		accountStore = new AccountStore()
+		accountStore.writeEntries({
+			profile: { john: { name: 'John', email: 'john@example.com' } },
+		})
+	})
+
+	it('protects matching keys of nested stores', () => {
+		expect(accountStore.read('profile:john:name')).toBe('John')
+		expect(() => accountStore.read('profile:john:email')).toThrow(PermissionDeniedError)
+		expect(() => accountStore.write('profile:jane:email', 'jane@example.com')).toThrow(
+			expect.objectContaining({ segment: 'email', permission: 'none' })
+		)
+		expect(accountStore.allowedToRead('profile:john:email')).toBe(false)
+	})
+
+	it('protects matching keys from writes and deletes of their ancestors', () => {
+		expect(() => accountStore.write('profile:john', { name: 'Johnny' })).toThrow(
+			expect.objectContaining({ path: 'profile:john', segment: 'email', permission: 'none' })
+		)
+		expect(() => accountStore.delete('profile')).toThrow(PermissionDeniedError)
+		expect(() => accountStore.delete('profile:john')).toThrow(PermissionDeniedError)
+		expect(accountStore.allowedToWrite('profile')).toBe(false)
+		expect(accountStore.read('profile:john:name')).toBe('John')
+
+		accountStore.write('profile:jane', { name: 'Jane' })
+		expect(accountStore.delete('profile:jane')).toBe(true)
+	})
+
+	it('protects whole subtrees with "**"', () => {
+		expect(() => accountStore.write('settings:theme', 'dark')).toThrow(PermissionDeniedError)
+		// @ts-expect-error "settings" holds a store
+		expect(() => accountStore.write('settings', 'dark')).toThrow(PermissionDeniedError)
+		expect(accountStore.allowedToRead('settings:theme:color')).toBe(true)
+	})
+
+	it('does not register a field rule for the decorated property', () => {
+		expect(accountStore.permissionFor('profile')).toBe('rw')
+	})
+
+	it('hides matching paths from multi-reads and snapshots', () => {
+		expect([...accountStore.readAll('profile:*:*').keys()]).toEqual(['profile:john:name'])
+		expect(accountStore.snapshot()).toEqual({ profile: { john: { name: 'John' } } })
+	})
+
+	it('protects values inside arrays', () => {
+		definePathRule(accountStore, 'tags:0', 'r')
+		accountStore.write('tags', ['admin', 'user'])
+		accountStore.write('tags:1', 'guest')
+		expect(() => accountStore.write('tags:0', 'guest')).toThrow(PermissionDeniedError)
+	})
+})
+
+/*
+
+2. Precedence
+
+These tests check how pattern rules, field rules and the default policy combine.
+
+*/
+
+describe('Path rules - Precedence', () => {
+	it('prefers path rules over field rules and the default policy', () => {
+		class SettingsStore extends Store {
+			@Restrict('none')
+			public theme = 'light'
+		}
+		definePathRule(SettingsStore, 'theme', 'r')
+		definePathRule(SettingsStore, 'locked:**', 'none')
+
+		const settingsStore = new SettingsStore()
+		expect(settingsStore.read('theme')).toBe('light')
+		expect(settingsStore.allowedToWrite('theme')).toBe(false)
+		expect(settingsStore.allowedToRead('locked')).toBe(false)
+		expect(settingsStore.allowedToRead('other')).toBe(true)
+	})
+
+	it('lets the most specific pattern win', () => {
+		const store = new Store()
+		definePathRule(store, 'users:*:**', 'none')
+		definePathRule(store, 'users:*', 'r')
+		definePathRule(store, 'users:*:name', 'rw')
+
+		expect(store.allowedToRead('users:john')).toBe(true)
+		expect(store.allowedToWrite('users:john')).toBe(false)
+		expect(store.allowedToWrite('users:john:name')).toBe(true)
+		expect(store.allowedToRead('users:john:email')).toBe(false)
+	})
+
+	it('lets parent rules narrow what a nested store allows', () => {
+		const store = new Store()
+		const nested = new Store()
+		definePathRule(store, 'nested:secret', 'none')
+		store.write('nested', nested)
+		nested.write('secret', 'value')
+
+		expect(nested.read('secret')).toBe('value')
+		expect(() => store.read('nested:secret')).toThrow(PermissionDeniedError)
+	})
+
+	it('applies inherited rules to subclasses', () => {
+		class BaseStore extends Store {}
+		class ChildStore extends BaseStore {}
+		definePathRule(BaseStore, 'internal:**', 'none')
+
+		expect(new ChildStore().allowedToRead('internal:key')).toBe(false)
+	})
+})
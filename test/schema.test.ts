@@ -0,0 +1,141 @@
+import { ValidationError } from '../src/errors'
+import { defineSchema, Schema } from '../src/schema'
+import { Restrict, Store } from '../src/store'
+
+/*
+
+1. Field Decorators
+
+These tests check writes against schemas declared next to @Restrict.
+
+*/
+
+describe('Store schema - Field Decorators', () => {
+	class ProfileStore extends Store {
+		@Restrict('rw')
+		@Schema({ type: 'string', minLength: 1 })
+		public name = 'John'
+
+		@Schema({ type: 'integer', minimum: 0 })
+		public age?: number
+	}
+
+	it('accepts valid values', () => {
+		const profileStore = new ProfileStore()
+		profileStore.write('age', 42)
+		expect(profileStore.read('age')).toBe(42)
+	})
+
+	it('rejects invalid values with a descriptive error', () => {
+		const profileStore = new ProfileStore()
+		// @ts-expect-error "age" holds a number
+		expect(() => profileStore.write('age', 'banana')).toThrow(ValidationError)
+		// @ts-expect-error "age" holds a number
+		expect(() => profileStore.write('age', 'banana')).toThrow('"age" expected integer, got string')
+		expect(profileStore.read('age')).toBeUndefined()
+	})
+
+	it('lists every failing path of writeEntries without writing anything', () => {
+		const profileStore = new ProfileStore()
+		try {
+			profileStore.writeEntries({ name: '', age: -1 })
+			throw new Error('expected a validation error')
+		} catch (error) {
+			expect(error).toBeInstanceOf(ValidationError)
+			expect((error as ValidationError).issues).toEqual([
+				{ path: 'name', message: 'must be at least 1 characters long' },
+				{ path: 'age', message: 'must be at least 0' },
+			])
+		}
+		expect(profileStore.read('name')).toBe('John')
+	})
+
+	it('inherits schemas from parent classes', () => {
+		class AdultStore extends ProfileStore {
+			@Schema({ type: 'integer', minimum: 18 })
+			public override age?: number = undefined
+		}
+		const adultStore = new AdultStore()
+		expect(() => adultStore.write('age', 12)).toThrow(ValidationError)
+		// @ts-expect-error "name" holds a string
+		expect(() => adultStore.write('name', 42)).toThrow(ValidationError)
+	})
+})
+
+/*
+
+2. Schema Objects
+
+These tests check JSON-Schema-like objects, nested writes and unknown keys.
+
+*/
+
+describe('Store schema - Schema Objects', () => {
+	class AccountStore extends Store {}
+	defineSchema(AccountStore, {
+		unknownKeys: 'reject',
+		properties: {
+			email: { type: 'string', pattern: '^[^@]+@[^@]+$' },
+			tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+			profile: {
+				type: 'object',
+				required: ['first'],
+				unknownKeys: 'strip',
+				properties: {
+					first: { type: 'string' },
+					age: { type: 'number' },
+				},
+			},
+		},
+	})
+
+	it('validates nested writes through colon paths', () => {
+		const accountStore = new AccountStore()
+		accountStore.write('profile:first', 'John')
+
+		expect(() => accountStore.write('profile:age', 'old')).toThrow(
+			expect.objectContaining({
+				path: 'profile:age',
+				issues: [{ path: 'profile:age', message: 'expected number, got string' }],
+			})
+		)
+		expect(accountStore.read('profile:age')).toBeUndefined()
+	})
+
+	it('validates nested objects and array items', () => {
+		const accountStore = new AccountStore()
+		expect(() => accountStore.writeEntries({ profile: { age: 3 }, tags: ['a', 1, 'c'] })).toThrow(
+			expect.objectContaining({
+				issues: [
+					{ path: 'profile:first', message: 'is required' },
+					{ path: 'tags', message: 'must have at most 2 items' },
+					{ path: 'tags:1', message: 'expected string, got integer' },
+				],
+			})
+		)
+		expect(() => accountStore.write('tags:0', 1)).toThrow(ValidationError)
+	})
+
+	it('rejects unknown keys', () => {
+		const accountStore = new AccountStore()
+		expect(() => accountStore.write('nickname', 'Johnny')).toThrow('"nickname" is not a known key')
+	})
+
+	it('strips unknown keys', () => {
+		const accountStore = new AccountStore()
+		accountStore.write('profile', { first: 'John', nickname: 'Johnny' })
+
+		expect(accountStore.read('profile:first')).toBe('John')
+		expect(accountStore.read('profile:nickname')).toBeUndefined()
+		accountStore.write('profile:nickname', 'Johnny')
+		expect(accountStore.read('profile:nickname')).toBeUndefined()
+	})
+
+	it('allows unknown keys by default', () => {
+		const store = new Store()
+		defineSchema(store, { properties: { age: { type: 'number' } } })
+		store.write('nickname', 'Johnny')
+		expect(store.read('nickname')).toBe('Johnny')
+		expect(() => store.write('age', 'old')).toThrow(ValidationError)
+	})
+})
@@ -0,0 +1,135 @@
+import { AdminStore } from '../src/adminStore'
+import { PermissionDeniedError } from '../src/errors'
+import { definePathRule } from '../src/rules'
+import { StoreScope } from '../src/scope'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Addressing
+
+These tests check that scopes address paths relative to their prefix.
+
+*/
+
+describe('Scopes - Addressing', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+		store.writeEntries({
+			user: { profile: { name: 'John', tags: ['admin'] } },
+			secret: 'hidden',
+		})
+	})
+
+	it('reads and writes below the prefix', () => {
+		const profile = store.scope('user:profile')
+		expect(profile.prefix).toBe('user:profile')
+		expect(profile.read('name')).toBe('John')
+
+		profile.write('name', 'Jane')
+		profile.writeEntries({ 'a:b': 'literal' })
+		expect(store.read('user:profile:name')).toBe('Jane')
+		expect(store.read('user:profile:a\\:b')).toBe('literal')
+	})
+
+	it('lists, checks and deletes keys below the prefix', () => {
+		const profile = store.scope('user:profile')
+		expect(profile.keys()).toEqual(['name', 'tags'])
+		expect(profile.has('name')).toBe(true)
+		expect(profile.delete('name')).toBe(true)
+		expect(store.has('user:profile:name')).toBe(false)
+	})
+
+	it('treats ".." as a key below the prefix', () => {
+		const profile = store.scope('user:profile')
+		profile.write('..:secret', 'exposed')
+		expect(store.read('secret')).toBe('hidden')
+		expect(store.read('user:profile:..:secret')).toBe('exposed')
+	})
+
+	it('hands out nested stores as scopes', () => {
+		const user = store.scope('user', 'r')
+		const profile = user.read('profile')
+		expect(profile).toBeInstanceOf(StoreScope)
+		expect(profile).not.toBeInstanceOf(Store)
+		expect((profile as StoreScope).prefix).toBe('user:profile')
+		expect(() => (profile as StoreScope).write('name', 'Jane')).toThrow(PermissionDeniedError)
+	})
+
+	it('copies containers so that mutations do not reach the store', () => {
+		const tags = store.scope('user:profile', 'r').read('tags') as string[]
+		tags.push('root')
+		expect(store.read('user:profile:tags')).toEqual(['admin'])
+	})
+
+	it('does not expose the root store', () => {
+		const profile = store.scope('user:profile')
+		expect(Object.values(profile)).not.toContain(store)
+		expect(JSON.stringify(profile)).not.toContain('hidden')
+	})
+})
+
+/*
+
+2. Attenuation
+
+These tests check that scopes can only narrow what the parent allows.
+
+*/
+
+describe('Scopes - Attenuation', () => {
+	it('denies operations the scope permission does not grant', () => {
+		const store = new Store()
+		store.write('user:name', 'John')
+		const user = store.scope('user', 'r')
+
+		expect(user.allowedToWrite('name')).toBe(false)
+		expect(() => user.write('name', 'Jane')).toThrow(
+			expect.objectContaining({ permission: 'r', operation: 'write', segment: 'user' })
+		)
+		expect(() => user.delete('name')).toThrow(PermissionDeniedError)
+		expect(() => store.scope('user', 'w').read('name')).toThrow(PermissionDeniedError)
+	})
+
+	it('keeps the parent permissions and path rules', () => {
+		const adminStore = new AdminStore(new UserStore())
+		definePathRule(adminStore, 'user:email', 'none')
+		const user = adminStore.scope('user')
+
+		expect(user.read('name')).toBe('John Doe')
+		expect(user.allowedToRead('email')).toBe(false)
+		expect(() => user.read('email')).toThrow(PermissionDeniedError)
+		expect(() => adminStore.scope('name').read('first')).toThrow(PermissionDeniedError)
+	})
+
+	it('never widens the permission of nested scopes', () => {
+		const store = new Store()
+		store.write('user:profile:name', 'John')
+		const profile = store.scope('user', 'r').scope('profile', 'rw')
+
+		expect(profile.permission).toBe('r')
+		expect(profile.read('name')).toBe('John')
+		expect(() => profile.write('name', 'Jane')).toThrow(PermissionDeniedError)
+		expect(store.scope('user', 'w').scope('profile', 'r').permission).toBe('none')
+	})
+
+	it('acts as the actor the scope was created for', async () => {
+		class AccountStore extends Store {
+			@Restrict({ roles: { admin: 'rw' } })
+			public pw = new Store()
+		}
+		const accountStore = new AccountStore()
+		const pw = accountStore.as({ roles: ['admin'] }).scope('pw')
+
+		pw.write('current', 'secret')
+		expect(pw.read('current')).toBe('secret')
+		await expect(pw.readAsync('current')).resolves.toBe('secret')
+		pw.write('previous:first', 'hunter2')
+		expect(pw.keys()).toEqual(['current', 'previous'])
+		expect(pw.scope('previous', 'r').read('first')).toBe('hunter2')
+		expect(() => accountStore.scope('pw').read('current')).toThrow(PermissionDeniedError)
+	})
+})
@@ -0,0 +1,145 @@
+import { AdminStore } from '../src/adminStore'
+import { PermissionDeniedError } from '../src/errors'
+import type { JSONObject } from '../src/json-types'
+import { lazy } from '../src/lazy'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Snapshot Export
+
+These tests check that snapshots walk fields and data, nested stores included.
+
+*/
+
+describe('Store snapshot - Export', () => {
+	it('exports class fields and written data as JSON', () => {
+		const userStore = new UserStore()
+		userStore.writeEntries({ profile: { age: 42, tags: ['a', 'b'] } })
+
+		expect(userStore.snapshot()).toEqual({
+			name: 'John Doe',
+			profile: { age: 42, tags: ['a', 'b'] },
+		})
+	})
+
+	it('leaves out keys that cannot be read at each level', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect(adminStore.snapshot()).toStrictEqual({ user: { name: 'John Doe' } })
+	})
+
+	it('resolves lazy values only when asked to', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect(adminStore.snapshot()).not.toHaveProperty('getCredentials')
+		expect(adminStore.snapshot({ resolveLazy: true })).toHaveProperty('getCredentials', {
+			username: expect.stringMatching(/^enc:v1:/),
+		})
+	})
+
+	it('is used by JSON.stringify', () => {
+		const store = new Store()
+		store.write('a:b', 'value')
+		expect(JSON.stringify(store)).toBe('{"a":{"b":"value"}}')
+	})
+
+	it('writes cycles as references', () => {
+		const store = new Store()
+		store.write('deep:value', 'value')
+		const deep = store.read('deep') as Store
+		deep.write('parent', store)
+		deep.write('self', deep)
+
+		expect(store.snapshot()).toEqual({
+			deep: { value: 'value', parent: { $ref: '' }, self: { $ref: 'deep' } },
+		})
+	})
+
+	it('exports nested lazy stores from class fields', () => {
+		class ParentStore extends Store {
+			@Restrict('r')
+			public child = lazy(() => {
+				const store = new Store()
+				store.write('value', 1)
+				return store
+			})
+		}
+		expect(new ParentStore().snapshot({ resolveLazy: true })).toEqual({ child: { value: 1 } })
+	})
+})
+
+/*
+
+2. Hydration
+
+These tests check that stores can be rebuilt from snapshots.
+
+*/
+
+describe('Store snapshot - Hydration', () => {
+	it('rebuilds a store tree from JSON', () => {
+		const json: JSONObject = { a: 'value1', b: { c: 'value2', d: [1, 2] } }
+		const store = Store.fromJSON(json)
+
+		expect(store.read('a')).toBe('value1')
+		expect(store.read('b')).toBeInstanceOf(Store)
+		expect(store.read('b:c')).toBe('value2')
+		expect(store.snapshot()).toEqual(json)
+	})
+
+	it('builds instances of the class it is called on', () => {
+		const userStore: Store = UserStore.fromJSON({ name: 'Jane', profile: { age: 42 } })
+		expect(userStore).toBeInstanceOf(UserStore)
+		expect(userStore.read('name')).toBe('Jane')
+		expect(userStore.read('profile:age')).toBe(42)
+	})
+
+	it('round-trips read-only fields', () => {
+		class DocStore extends Store {
+			@Restrict('r')
+			public id = 'doc-1'
+			public title = 'Draft'
+		}
+		const docStore = new DocStore()
+		docStore.write('title', 'Final')
+
+		const copy = DocStore.fromJSON(docStore.snapshot())
+		expect(copy.snapshot()).toEqual({ id: 'doc-1', title: 'Final' })
+		expect(() => DocStore.fromJSON({ id: 'doc-2' })).toThrow(PermissionDeniedError)
+	})
+
+	it('restores references to the same stores', () => {
+		const store = new Store()
+		store.write('deep:value', 'value')
+		const deep = store.read('deep') as Store
+		deep.write('parent', store)
+		deep.write('self', deep)
+
+		const copy = Store.fromJSON(store.snapshot())
+
+		expect(copy.read('deep:parent')).toBe(copy)
+		expect(copy.read('deep:self')).toBe(copy.read('deep'))
+		expect(copy.read('deep:parent:deep:self:value')).toBe('value')
+	})
+
+	it('keeps values shaped like references apart from references', () => {
+		const store = new Store()
+		store.write('link', { $ref: 'elsewhere' })
+		store.write('list', [{ $ref: 'x', $$ref: 'y' }])
+
+		const snapshot = store.snapshot()
+		expect(snapshot).toEqual({
+			link: { $$ref: 'elsewhere' },
+			list: [{ $$ref: 'x', $$$ref: 'y' }],
+		})
+		const copy = Store.fromJSON(snapshot)
+		expect(copy.read('link:$ref')).toBe('elsewhere')
+		expect(copy.read('list')).toEqual([{ $ref: 'x', $$ref: 'y' }])
+	})
+
+	it('rejects unknown references without writing anything', () => {
+		const store = new Store()
+		expect(() => store.hydrate({ a: 'value', b: { $ref: 'missing' } })).toThrow(Error)
+		expect(store.read('a')).toBeUndefined()
+	})
+})
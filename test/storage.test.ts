@@ -0,0 +1,181 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { AdminStore } from '../src/adminStore'
+import {
+	FileStorageAdapter,
+	MemoryStorageAdapter,
+	type StorageAdapter,
+	WriteLogStorageAdapter,
+} from '../src/storage'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Loading and Saving
+
+These tests check that attached stores load lazily and save their writes.
+
+*/
+
+describe('Store storage - Loading and Saving', () => {
+	it('loads lazily on first access', () => {
+		const adapter: StorageAdapter = {
+			load: jest.fn(() => ({ name: 'Jane' })),
+			persist: jest.fn(),
+		}
+		const userStore = new UserStore()
+		userStore.attachStorage(adapter)
+
+		expect(adapter.load).not.toHaveBeenCalled()
+		expect(userStore.read('name')).toBe('Jane')
+		expect(adapter.load).toHaveBeenCalledTimes(1)
+		expect(adapter.persist).not.toHaveBeenCalled()
+	})
+
+	it('saves each write by default', () => {
+		const adapter = new MemoryStorageAdapter()
+		const store = new Store()
+		store.attachStorage(adapter)
+
+		store.write('profile:name', 'John')
+		expect(adapter.load()).toEqual({ profile: { name: 'John' } })
+	})
+
+	it('saves writes made directly on nested stores', () => {
+		const adapter = new MemoryStorageAdapter()
+		const store = new Store()
+		store.attachStorage(adapter)
+		store.writeEntries({ profile: { name: 'John' } })
+
+		const profile = store.read('profile') as Store
+		profile.write('age', 42)
+		expect(adapter.load()).toEqual({ profile: { name: 'John', age: 42 } })
+	})
+
+	it('saves writes made directly on class field stores', () => {
+		const adapter = new MemoryStorageAdapter()
+		const userStore = new UserStore()
+		const adminStore = new AdminStore(userStore)
+		adminStore.attachStorage(adapter)
+
+		userStore.write('name', 'Jane Doe')
+		expect(adapter.load()).toMatchObject({ user: { name: 'Jane Doe' } })
+	})
+
+	it('saves in batches', () => {
+		const adapter: StorageAdapter = { load: () => undefined, persist: jest.fn() }
+		const store = new Store()
+		const storage = store.attachStorage(adapter, { batchSize: 3 })
+
+		store.write('a', 1)
+		store.write('b', 2)
+		expect(adapter.persist).not.toHaveBeenCalled()
+		store.write('c', 3)
+		expect(adapter.persist).toHaveBeenCalledTimes(1)
+
+		store.write('d', 4)
+		storage.flush()
+		expect(adapter.persist).toHaveBeenCalledTimes(2)
+		expect(adapter.persist).toHaveBeenLastCalledWith(
+			[{ path: 'd', value: 4 }],
+			expect.any(Function)
+		)
+	})
+
+	it('stops saving once detached', () => {
+		const adapter = new MemoryStorageAdapter()
+		const store = new Store()
+		const storage = store.attachStorage(adapter)
+
+		store.write('a', 1)
+		storage.detach()
+		store.write('b', 2)
+		expect(adapter.load()).toEqual({ a: 1 })
+	})
+
+	it('reloads values without running middleware on them again', () => {
+		const adapter = new MemoryStorageAdapter({ name: 'x!' })
+		const store = new Store()
+		store.use((context, next) =>
+			context.operation === 'write' ? next(`${context.value}!`) : next()
+		)
+		store.attachStorage(adapter)
+		expect(store.read('name')).toBe('x!')
+	})
+
+	it('saves and reloads values the store itself cannot read', () => {
+		class VaultStore extends Store {
+			@Restrict('m')
+			public secret = 'hunter2'
+
+			@Restrict('w')
+			public token = ''
+
+			public note = ''
+		}
+		const adapter = new MemoryStorageAdapter()
+		const vaultStore = new VaultStore()
+		vaultStore.attachStorage(adapter)
+		vaultStore.write('token', 'abc')
+		vaultStore.write('note', 'x')
+		expect(adapter.load()).toEqual({ secret: 'hunter2', token: 'abc', note: 'x' })
+
+		const restored = new VaultStore()
+		restored.attachStorage(adapter)
+		expect(restored.read('note')).toBe('x')
+		expect(restored.read('secret')).toBe('****')
+		expect(restored.data.get('token')).toBe('abc')
+	})
+})
+
+/*
+
+2. Built-in Adapters
+
+These tests check the file and write log adapters against a temporary directory.
+
+*/
+
+describe('Store storage - Built-in Adapters', () => {
+	let directory: string
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), 'store-'))
+	})
+
+	afterEach(() => {
+		rmSync(directory, { recursive: true, force: true })
+	})
+
+	it('saves and restores a JSON file', () => {
+		const filePath = join(directory, 'store.json')
+		const store = new Store()
+		store.attachStorage(new FileStorageAdapter(filePath))
+		store.writeEntries({ user: { name: 'John', tags: ['a'] } })
+
+		expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual({
+			user: { name: 'John', tags: ['a'] },
+		})
+
+		const restored = new Store()
+		restored.attachStorage(new FileStorageAdapter(filePath))
+		expect(restored.read('user:tags')).toEqual(['a'])
+	})
+
+	it('replays an append-only write log', () => {
+		const filePath = join(directory, 'store.log')
+		const store = new Store()
+		store.attachStorage(new WriteLogStorageAdapter(filePath))
+		store.write('user:name', 'John')
+		store.write('user:name', 'Jane')
+		store.write('user:profile', { age: 42 })
+
+		expect(readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(4)
+
+		const restored = new Store()
+		restored.attachStorage(new WriteLogStorageAdapter(filePath))
+		expect(restored.snapshot()).toEqual({ user: { name: 'Jane', profile: { age: 42 } } })
+	})
+})
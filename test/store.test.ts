@@ -88,8 +88,9 @@ describe('Nested Store Operations', () => {
 	})
 
 	it('should allow writing and reading nested keys in user store', () => {
-		userStore.write('profile:name', 'John Smith')
-		expect(userStore.read('profile:name')).toBe('John Smith')
+		const store: Store = userStore
+		store.write('profile:name', 'John Smith')
+		expect(store.read('profile:name')).toBe('John Smith')
 	})
 
 	it('should allow reading nested keys in admin store', () => {
@@ -97,15 +98,18 @@ describe('Nested Store Operations', () => {
 	})
 
 	it('should allow writing and reading nested keys in user from admin store', () => {
-		adminStore.write('user:profile:name', 'John Smith')
-		expect(adminStore.read('user:profile:name')).toBe('John Smith')
+		const store: Store = adminStore
+		store.write('user:profile:name', 'John Smith')
+		expect(store.read('user:profile:name')).toBe('John Smith')
 	})
 
 	it('should disallow writing nested keys in admin store', () => {
+		// @ts-expect-error "profile" is not a field of AdminStore
 		expect(() => adminStore.write('profile:name', 'John Smith')).toThrow()
 	})
 
 	it('should disallow reading nested keys in admin store', () => {
+		// @ts-expect-error "profile" is not a field of AdminStore
 		expect(() => adminStore.read('profile:name')).toThrow()
 	})
 
@@ -239,7 +243,7 @@ These tests ensure that default policies are correctly applied to keys with no e
 describe('Test Store - Default Policy Behavior', () => {
 	it('disallows writing a key with with default read permission', () => {
 		class TestStore extends Store {
-			public defaultPolicy: Permission = 'r'
+			public override defaultPolicy: Permission = 'r'
 			public defaultRestrictedProp?: string
 		}
 		const testStore = new TestStore()
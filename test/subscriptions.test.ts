@@ -0,0 +1,241 @@
+import { AdminStore } from '../src/adminStore'
+import { PermissionDeniedError } from '../src/errors'
+import { Mask, showLast } from '../src/mask'
+import { definePathRule } from '../src/rules'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Direct Subscriptions
+
+These tests check that listeners are notified about writes at or below their path.
+
+*/
+
+describe('Store subscriptions - Direct Subscriptions', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+	})
+
+	it('notifies listeners with the old and new value', () => {
+		const listener = jest.fn()
+		store.write('name', 'John')
+		store.subscribe('name', listener)
+		store.write('name', 'Jane')
+
+		expect(listener).toHaveBeenCalledWith({
+			path: 'name',
+			oldValue: 'John',
+			newValue: 'Jane',
+			store,
+		})
+	})
+
+	it('notifies listeners about writes below their path', () => {
+		const listener = jest.fn()
+		store.subscribe('profile', listener)
+		store.write('profile:name', 'John')
+
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({ path: 'profile:name', newValue: 'John' })
+		)
+	})
+
+	it('notifies listeners on the empty path about every write', () => {
+		const listener = jest.fn()
+		const unsubscribe = store.subscribe('', listener)
+		store.write('name', 'John')
+		store.write('profile:name', 'Jane')
+		unsubscribe()
+		store.write('name', 'Jim')
+
+		expect(listener.mock.calls.map(([change]) => change.path)).toEqual(['name', 'profile:name'])
+	})
+
+	it('ignores writes to sibling paths', () => {
+		const listener = jest.fn()
+		store.subscribe('profile', listener)
+		store.write('profileName', 'John')
+
+		expect(listener).not.toHaveBeenCalled()
+	})
+
+	it('stops notifying after unsubscribing', () => {
+		const listener = jest.fn()
+		const unsubscribe = store.subscribe('name', listener)
+		unsubscribe()
+		store.write('name', 'John')
+
+		expect(listener).not.toHaveBeenCalled()
+	})
+
+	it('refuses subscriptions on unreadable keys', () => {
+		const adminStore = new AdminStore(new UserStore())
+		expect(() => adminStore.subscribe('name', jest.fn())).toThrow(Error)
+	})
+})
+
+/*
+
+2. Nested Store Notifications
+
+These tests check that writes made on nested stores bubble up to their parents.
+
+*/
+
+describe('Store subscriptions - Nested Store Notifications', () => {
+	it('bubbles writes made directly on a nested store', () => {
+		const store = new Store()
+		store.writeEntries({ user: { profile: { name: 'John' } } })
+		const listener = jest.fn()
+		store.subscribe('user:profile', listener)
+
+		const profile = store.read('user:profile') as Store
+		profile.write('name', 'Jane')
+
+		expect(listener).toHaveBeenCalledWith({
+			path: 'user:profile:name',
+			oldValue: 'John',
+			newValue: 'Jane',
+			store: profile,
+		})
+	})
+
+	it('bubbles writes into class field stores', () => {
+		const userStore = new UserStore()
+		const adminStore = new AdminStore(userStore)
+		const listener = jest.fn()
+		adminStore.subscribe('user', listener)
+		;(adminStore as Store).write('user:profile:name', 'John Smith')
+
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({ path: 'user:profile:name', newValue: 'John Smith' })
+		)
+	})
+
+	it('bubbles writes made directly on class field stores that were never read', () => {
+		const userStore = new UserStore()
+		const adminStore = new AdminStore(userStore)
+		const listener = jest.fn()
+		adminStore.subscribe('user', listener)
+		userStore.write('name', 'Jane Doe')
+
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({ path: 'user:name', newValue: 'Jane Doe' })
+		)
+	})
+
+	it('stops bubbling from a store once it is replaced', () => {
+		const store = new Store()
+		store.write('nested:key', 'value')
+		const nested = store.read('nested') as Store
+		store.write('nested', 'replaced')
+
+		const listener = jest.fn()
+		store.subscribe('nested', listener)
+		nested.write('key', 'other')
+
+		expect(listener).not.toHaveBeenCalled()
+	})
+
+	it('does not loop forever on cyclic stores', () => {
+		const store = new Store()
+		store.write('self', store)
+		const listener = jest.fn()
+		store.subscribe('key', listener)
+
+		store.write('key', 'value')
+
+		expect(listener).toHaveBeenCalledTimes(1)
+	})
+})
+
+/*
+
+3. Permissions
+
+These tests check that listeners only see what the subscribing actor could read.
+
+*/
+
+describe('Store subscriptions - Permissions', () => {
+	class PaymentStore extends Store {
+		@Mask(showLast(4))
+		@Restrict({ roles: { billing: 'rw' }, default: 'm' })
+		public card = '4111111111111111'
+	}
+
+	it('leaves out changes of paths the subscriber cannot read', () => {
+		const store = new Store()
+		definePathRule(store, 'profile:token', 'w')
+		const listener = jest.fn()
+		store.subscribe('profile', listener)
+
+		store.write('profile:token', 'secret')
+		store.write('profile:name', 'John')
+
+		expect(listener).toHaveBeenCalledTimes(1)
+		expect(listener).toHaveBeenCalledWith(expect.objectContaining({ path: 'profile:name' }))
+	})
+
+	it('subscribes to nested paths through keys that can only be traversed', () => {
+		const userStore = new UserStore()
+		class AccountStore extends Store {
+			@Restrict('t')
+			public user = userStore
+		}
+		const accountStore = new AccountStore()
+		const listener = jest.fn()
+		accountStore.subscribe('user:name', listener)
+		userStore.write('name', 'Jane Doe')
+
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({ path: 'user:name', newValue: 'Jane Doe' })
+		)
+		expect(() => accountStore.subscribe('user', jest.fn())).toThrow(PermissionDeniedError)
+	})
+
+	it('passes masked values through their mask', () => {
+		const paymentStore = new PaymentStore()
+		const listener = jest.fn()
+		const billingListener = jest.fn()
+		paymentStore.subscribe('card', listener)
+		paymentStore.as({ roles: ['billing'] }).subscribe('card', billingListener)
+
+		paymentStore.as({ roles: ['billing'] }).write('card', '5500000000000004')
+
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({ oldValue: '****1111', newValue: '****0004' })
+		)
+		expect(billingListener).toHaveBeenCalledWith(
+			expect.objectContaining({ oldValue: '4111111111111111', newValue: '5500000000000004' })
+		)
+	})
+
+	it('masks values of nested stores for subscribers on the parent', () => {
+		const store = new Store()
+		store.write('payment', new PaymentStore())
+		const listener = jest.fn()
+		store.subscribe('payment', listener)
+
+		store.as({ roles: ['billing'] }).write('payment:card', '5500000000000004')
+
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({ path: 'payment:card', newValue: '****0004' })
+		)
+	})
+
+	it('leaves keys that cannot be read out of written values', () => {
+		const store = new Store()
+		definePathRule(store, 'tags:0', 'none')
+		const listener = jest.fn()
+		store.subscribe('tags', listener)
+
+		store.write('tags', ['admin', 'user'])
+
+		expect(listener).toHaveBeenCalledWith(expect.objectContaining({ newValue: [null, 'user'] }))
+	})
+})
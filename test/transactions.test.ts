@@ -0,0 +1,160 @@
+import { AdminStore } from '../src/adminStore'
+import { PermissionDeniedError } from '../src/errors'
+import { Restrict, Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+/*
+
+1. Commit and Rollback
+
+These tests check that transactions either keep all of their writes or none of them.
+
+*/
+
+describe('Store transactions - Commit and Rollback', () => {
+	let store: Store
+
+	beforeEach(() => {
+		store = new Store()
+		store.write('name', 'John')
+	})
+
+	it('commits every write when the callback succeeds', () => {
+		const result = store.transaction((tx) => {
+			tx.write('name', 'Jane')
+			tx.write('profile:age', 42)
+			return 'done'
+		})
+
+		expect(result).toBe('done')
+		expect(store.read('name')).toBe('Jane')
+		expect(store.read('profile:age')).toBe(42)
+	})
+
+	it('rolls back every write when the callback throws', () => {
+		expect(() =>
+			store.transaction((tx) => {
+				tx.write('name', 'Jane')
+				tx.write('profile:age', 42)
+				throw new Error('abort')
+			})
+		).toThrow('abort')
+
+		expect(store.read('name')).toBe('John')
+		expect(store.read('profile')).toBeUndefined()
+	})
+
+	it('rolls back writes routed into existing nested stores', () => {
+		store.write('profile:name', 'John')
+		const profile = store.read('profile') as Store
+
+		expect(() =>
+			store.transaction((tx) => {
+				tx.write('profile:name', 'Jane')
+				profile.write('age', 42)
+				throw new Error('abort')
+			})
+		).toThrow('abort')
+
+		expect(profile.read('name')).toBe('John')
+		expect(profile.read('age')).toBeUndefined()
+	})
+
+	it('only rolls back a nested transaction that failed', () => {
+		store.transaction((tx) => {
+			tx.write('name', 'Jane')
+			try {
+				tx.transaction((inner) => {
+					inner.write('age', 42)
+					throw new Error('abort')
+				})
+			} catch {
+				// The outer transaction keeps going
+			}
+		})
+
+		expect(store.read('name')).toBe('Jane')
+		expect(store.read('age')).toBeUndefined()
+	})
+
+	it('defers notifications until the transaction commits', () => {
+		const listener = jest.fn()
+		store.subscribe('name', listener)
+
+		store.transaction((tx) => {
+			tx.write('name', 'Jane')
+			expect(listener).not.toHaveBeenCalled()
+		})
+		expect(listener).toHaveBeenCalledTimes(1)
+	})
+
+	it('drops notifications of rolled back writes', () => {
+		const listener = jest.fn()
+		store.subscribe('name', listener)
+
+		expect(() =>
+			store.transaction((tx) => {
+				tx.write('name', 'Jane')
+				throw new Error('abort')
+			})
+		).toThrow('abort')
+		expect(listener).not.toHaveBeenCalled()
+	})
+
+	it('keeps committed writes when a listener throws', () => {
+		const listener = jest.fn()
+		store.subscribe('name', () => {
+			throw new Error('listener')
+		})
+		store.subscribe('age', listener)
+
+		expect(() => store.write('name', 'Jane')).toThrow('listener')
+		expect(store.read('name')).toBe('Jane')
+
+		expect(() =>
+			store.transaction((tx) => {
+				tx.write('name', 'Jim')
+				tx.write('age', 42)
+			})
+		).toThrow('listener')
+		expect(store.read('name')).toBe('Jim')
+		expect(listener).toHaveBeenCalledTimes(1)
+	})
+})
+
+/*
+
+2. Atomic Writes
+
+These tests check that a denied key leaves no partial writes behind.
+
+*/
+
+describe('Store transactions - Atomic Writes', () => {
+	it('does not partially apply writeEntries when a key is denied', () => {
+		class ProfileStore extends Store {
+			@Restrict('r')
+			public id = 'profile-1'
+			declare name?: string
+			declare address?: Store
+		}
+		const profileStore = new ProfileStore()
+
+		expect(() =>
+			profileStore.writeEntries({ name: 'John', address: { city: 'Paris' }, id: 'other' })
+		).toThrow(PermissionDeniedError)
+
+		expect(profileStore.read('name')).toBeUndefined()
+		expect(profileStore.read('address')).toBeUndefined()
+		expect(profileStore.read('id')).toBe('profile-1')
+	})
+
+	it('does not leave intermediate stores behind after a failed nested write', () => {
+		const adminStore = new AdminStore(new UserStore())
+		const userStore = adminStore.read('user') as UserStore
+
+		// @ts-expect-error "user:profile" is not a field of UserStore
+		expect(() => adminStore.write('user:profile:address::city', 'Paris')).toThrow(Error)
+		expect(userStore.data.has('profile')).toBe(false)
+	})
+})
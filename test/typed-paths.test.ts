@@ -0,0 +1,133 @@
+import { AdminStore } from '../src/adminStore'
+import { Computed } from '../src/computed'
+import { PermissionDeniedError } from '../src/errors'
+import { lazy } from '../src/lazy'
+import { Store } from '../src/store'
+import { UserStore } from '../src/userStore'
+
+// The @ts-expect-error lines document paths and values the compiler rejects
+
+/*
+
+1. Store Subclasses
+
+These tests check paths derived from declared fields and nested store types.
+
+*/
+
+describe('Typed paths - Store Subclasses', () => {
+	let adminStore: AdminStore
+
+	beforeEach(() => {
+		adminStore = new AdminStore(new UserStore())
+	})
+
+	it('reads nested fields with their declared type', () => {
+		const name: string = adminStore.read('user:name')
+		expect(name.toUpperCase()).toBe('JOHN DOE')
+	})
+
+	it('types lazy values by what they return', () => {
+		const credentials: Store = adminStore.read('getCredentials')
+		expect(credentials.read('username')).toBe('user1')
+	})
+
+	it('rejects misspelled paths', () => {
+		// @ts-expect-error "usr" is not a field of AdminStore
+		expect(() => adminStore.read('usr:name')).toThrow(PermissionDeniedError)
+	})
+
+	it('checks written values against the path', () => {
+		adminStore.write('user:name', 'Jane Doe')
+		expect(adminStore.read('user:name')).toBe('Jane Doe')
+
+		// @ts-expect-error "user:name" holds a string
+		adminStore.write('user:name', 42)
+		expect(adminStore.read('user:name')).toBe(42)
+	})
+
+	it('accepts paths only known at runtime', async () => {
+		const path: string = 'user:profile:name'
+		adminStore.write(path, 'Jane')
+		expect(adminStore.read(path)).toBe('Jane')
+		await expect(adminStore.readAsync(path)).resolves.toBe('Jane')
+	})
+
+	it('types computed keys, arrays and asynchronous values', async () => {
+		class CartStore extends Store {
+			items = [{ price: 2 }, { price: 3 }]
+			token = lazy(async () => 'secret')
+
+			@Computed('items')
+			total(items: { price: number }[]) {
+				return items.reduce((sum, item) => sum + item.price, 0)
+			}
+		}
+		const cartStore = new CartStore()
+
+		const total: number = cartStore.read('total')
+		const price: number | undefined = cartStore.read('items:1:price')
+		const token: string = await cartStore.readAsync('token')
+		expect([total, price, token]).toEqual([5, 3, 'secret'])
+	})
+
+	it('accepts any path on stores without fields or with an index signature', () => {
+		class OpenStore extends Store {
+			[key: string]: unknown
+			label = 'open'
+		}
+		const store = new Store()
+		const openStore = new OpenStore()
+
+		store.write('any:path', 1)
+		openStore.write('other:path', 2)
+		expect(store.read('any:path')).toBe(1)
+		expect(openStore.read('other:path')).toBe(2)
+	})
+})
+
+/*
+
+2. Typed Data Stores
+
+These tests check Store<TShape> for stores built from data at runtime.
+
+*/
+
+describe('Typed paths - Typed Data Stores', () => {
+	interface Settings {
+		profile: { name: string; tags: string[] }
+		visits: number
+	}
+
+	let settingsStore: Store<Settings>
+
+	beforeEach(() => {
+		settingsStore = new Store<Settings>()
+		settingsStore.writeEntries({ profile: { name: 'John', tags: ['admin'] }, visits: 1 })
+	})
+
+	it('types nested objects as typed nested stores', () => {
+		const profile: Store<Settings['profile']> = settingsStore.read('profile')
+		const name: string = profile.read('name')
+		expect(name).toBe('John')
+		expect(settingsStore.read('profile:tags:0')).toBe('admin')
+	})
+
+	it('accepts the plain object shape of nested stores', () => {
+		settingsStore.write('profile', { name: 'Jane', tags: [] })
+		expect(settingsStore.read('profile:name')).toBe('Jane')
+	})
+
+	it('rejects unknown paths and mismatched values', () => {
+		// @ts-expect-error "visits" holds a number
+		settingsStore.write('visits', 'many')
+		// @ts-expect-error "nickname" is not part of the profile shape
+		expect(settingsStore.read('profile:nickname')).toBeUndefined()
+	})
+
+	it('stays assignable to a plain Store', () => {
+		const store: Store = settingsStore
+		expect(store.read('visits')).toBe(1)
+	})
+})